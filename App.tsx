@@ -4,6 +4,9 @@ import * as Sentry from '@sentry/react-native';
 import AppNavigator from './src/navigation/AppNavigator';
 import { ThemeProvider, useTheme } from './src/context/ThemeContext';
 import { initializeSentry, loadCrashReportingPreference, disableSentry } from './src/utils/crashReporting';
+import { runMigrations } from './src/services/migrations';
+import { connectivity } from './src/services/connectivity';
+import { revalidateAll } from './src/services/store';
 import appConfig from './app.json';
 
 // Initialize Sentry synchronously before Sentry.wrap()
@@ -29,6 +32,13 @@ function App() {
       if (!crashReportingEnabled) {
         disableSentry();
       }
+      // Upgrade stored data before any screen reads it
+      await runMigrations();
+      // Fail fast while offline, and pick up missed updates on reconnect
+      connectivity.start();
+      connectivity.onReconnect(() => {
+        revalidateAll();
+      });
       setReady(true);
     }
     init();
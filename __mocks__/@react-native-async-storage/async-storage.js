@@ -0,0 +1,2 @@
+// Native module; tests inject a MemoryStorageBackend instead
+module.exports = require('@react-native-async-storage/async-storage/jest/async-storage-mock');
@@ -0,0 +1,5 @@
+// Native module; tests pass their own connectivity to APIService
+module.exports = {
+  addNetworkStateListener: () => ({ remove: () => {} }),
+  getNetworkStateAsync: () => Promise.resolve({ isConnected: true, isInternetReachable: true }),
+};
@@ -0,0 +1,40 @@
+/**
+ * Refresh the bundled seed dataset from the live static API
+ * Usage: npm run seed:update
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const API_BASE_URL = 'https://bayareadiscounts.com/api';
+const OUTPUT_DIR = path.join(__dirname, '..', 'assets', 'data');
+const ENDPOINTS = ['programs', 'categories', 'eligibility', 'areas', 'metadata', 'synonyms'];
+// Endpoints the API may not publish yet; the bundled copy is kept when missing
+const OPTIONAL_ENDPOINTS = ['synonyms'];
+
+async function main() {
+  // Fetch everything before writing anything, so a failed run can't leave
+  // files from different data versions
+  const files = [];
+  for (const name of ENDPOINTS) {
+    const response = await fetch(`${API_BASE_URL}/${name}.json`);
+    if (response.status === 404 && OPTIONAL_ENDPOINTS.includes(name)) {
+      console.log(`Skipped ${name}.json (not published)`);
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${name}.json`);
+    }
+    files.push({ name, data: await response.json() });
+  }
+
+  for (const { name, data } of files) {
+    fs.writeFileSync(path.join(OUTPUT_DIR, `${name}.json`), JSON.stringify(data, null, 2) + '\n');
+    console.log(`Updated ${name}.json`);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
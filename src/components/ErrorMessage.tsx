@@ -1,30 +1,115 @@
 /**
  * Error Message Component
+ * Explains an API failure in plain language, with actions that fit the kind of error
  */
 
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { APIErrorKind, getErrorKind } from '../services/errors';
 
 interface ErrorMessageProps {
-  message: string;
+  // Anything thrown by APIService; classified to pick the copy and icon
+  error?: unknown;
+  // Overrides the kind's default explanation
+  message?: string;
   onRetry?: () => void;
+  // Offered when an older saved copy of the content is available
+  onShowSaved?: () => void;
+}
+
+interface ErrorContent {
+  icon: string;
+  title: string;
+  message: string;
+  // Whether trying again right away is likely to help
+  retryable: boolean;
 }
 
-export default function ErrorMessage({ message, onRetry }: ErrorMessageProps) {
+const ERROR_CONTENT: Record<APIErrorKind, ErrorContent> = {
+  offline: {
+    icon: '📴',
+    title: "You're offline",
+    message: 'Check your Wi-Fi or mobile data connection, then try again.',
+    retryable: true,
+  },
+  timeout: {
+    icon: '⏳',
+    title: 'This is taking too long',
+    message: 'The connection is slow right now. Please try again in a moment.',
+    retryable: true,
+  },
+  'not-found': {
+    icon: '🔍',
+    title: "We couldn't find this",
+    message: 'It may have been removed or is no longer offered.',
+    retryable: false,
+  },
+  server: {
+    icon: '🛠️',
+    title: 'Something went wrong on our end',
+    message: "Our servers are having trouble. It's not your connection - please try again in a few minutes.",
+    retryable: true,
+  },
+  'invalid-data': {
+    icon: '🧩',
+    title: "We couldn't read this information",
+    message: 'The information we received was incomplete. Please try again later.',
+    retryable: true,
+  },
+  unknown: {
+    icon: '⚠️',
+    title: 'Something went wrong',
+    message: 'Please try again.',
+    retryable: true,
+  },
+};
+
+/**
+ * Plain-language description of an error, for places that can't render
+ * this component (e.g. alerts)
+ */
+export function getErrorContent(error: unknown): ErrorContent {
+  return ERROR_CONTENT[getErrorKind(error)];
+}
+
+export default function ErrorMessage({ error, message, onRetry, onShowSaved }: ErrorMessageProps) {
+  const content = getErrorContent(error);
+  const showRetry = onRetry && (content.retryable || !onShowSaved);
+
   return (
     <View style={styles.container} accessibilityRole="alert" accessibilityLiveRegion="polite">
-      <Text style={styles.icon} accessible={false}>⚠️</Text>
-      <Text style={styles.message} allowFontScaling={true} maxFontSizeMultiplier={1.5}>{message}</Text>
-      {onRetry && (
+      <Text style={styles.icon} accessible={false}>{content.icon}</Text>
+      <Text style={styles.title} allowFontScaling={true} maxFontSizeMultiplier={1.5}>{content.title}</Text>
+      <Text style={styles.message} allowFontScaling={true} maxFontSizeMultiplier={1.5}>
+        {message ?? content.message}
+      </Text>
+      {onShowSaved && (
         <TouchableOpacity
           style={styles.button}
+          onPress={onShowSaved}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel="Show saved copy"
+          accessibilityHint="Double-tap to view the information saved on this device"
+        >
+          <Text style={styles.buttonText} allowFontScaling={true}>Show saved copy</Text>
+        </TouchableOpacity>
+      )}
+      {showRetry && (
+        <TouchableOpacity
+          style={onShowSaved ? [styles.button, styles.secondaryButton] : styles.button}
           onPress={onRetry}
           activeOpacity={0.7}
           accessibilityRole="button"
-          accessibilityLabel="Retry loading"
+          accessibilityLabel="Try again"
           accessibilityHint="Double-tap to try loading the content again"
         >
-          <Text style={styles.buttonText} allowFontScaling={true}>Retry</Text>
+          <Text
+            style={onShowSaved ? [styles.buttonText, styles.secondaryButtonText] : styles.buttonText}
+            allowFontScaling={true}
+          >
+            Try again
+          </Text>
         </TouchableOpacity>
       )}
     </View>
@@ -42,6 +127,13 @@ const styles = StyleSheet.create({
     fontSize: 48,
     marginBottom: 16,
   },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   message: {
     fontSize: 16,
     color: '#6b7280',
@@ -53,10 +145,19 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingVertical: 12,
     borderRadius: 8,
+    marginBottom: 12,
   },
   buttonText: {
     color: '#ffffff',
     fontSize: 16,
     fontWeight: '600',
   },
+  secondaryButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: '#2563eb',
+  },
+  secondaryButtonText: {
+    color: '#2563eb',
+  },
 });
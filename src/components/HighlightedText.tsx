@@ -0,0 +1,52 @@
+/**
+ * Highlighted Text Component
+ * Text with matched ranges emphasized, e.g. search terms in a result
+ */
+
+import React from 'react';
+import { Text, TextProps, StyleProp, TextStyle, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { TextRange, mergeRanges } from '../utils/snippet';
+
+interface HighlightedTextProps extends TextProps {
+  text: string;
+  highlights: TextRange[];
+  highlightStyle?: StyleProp<TextStyle>;
+}
+
+export default function HighlightedText({
+  text,
+  highlights,
+  highlightStyle,
+  ...textProps
+}: HighlightedTextProps) {
+  const { isDark } = useTheme();
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  mergeRanges(highlights).forEach(({ start, end }) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <Text
+        key={start}
+        style={[styles.highlight, { backgroundColor: isDark ? '#713f12' : '#fef08a' }, highlightStyle]}
+      >
+        {text.slice(start, end)}
+      </Text>
+    );
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <Text {...textProps}>{parts}</Text>;
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,72 @@
+/**
+ * Offline Banner Component
+ * Shown across the app while offline, with how current the saved data is
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useConnectivity } from '../hooks/useConnectivity';
+import APIService from '../services/api';
+
+function formatLastSynced(timestamp: number): string {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) {
+    return `today at ${time}`;
+  }
+  return `${date.toLocaleDateString()} at ${time}`;
+}
+
+export default function OfflineBanner() {
+  const { isOnline } = useConnectivity();
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [hasSeedPrograms, setHasSeedPrograms] = useState(false);
+
+  // Nothing can sync while offline, so read the time once per offline period
+  useEffect(() => {
+    if (isOnline === false) {
+      APIService.getLastSyncedAt().then(setLastSyncedAt);
+      APIService.hasSeedPrograms().then(setHasSeedPrograms);
+    }
+  }, [isOnline]);
+
+  if (isOnline !== false) {
+    return null;
+  }
+
+  let message: string;
+  if (lastSyncedAt !== null) {
+    message = `You're offline. Program info was last updated ${formatLastSynced(lastSyncedAt)}.`;
+  } else if (hasSeedPrograms) {
+    message = "You're offline. Showing built-in program info, which may be out of date.";
+  } else {
+    message = "You're offline. Program info will load once you're back online.";
+  }
+
+  return (
+    <View
+      style={styles.container}
+      accessible={true}
+      accessibilityRole="alert"
+      accessibilityLiveRegion="polite"
+      accessibilityLabel={message}
+    >
+      <Text style={styles.text} allowFontScaling={true} maxFontSizeMultiplier={1.5}>
+        📴 {message}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fef3c7',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  text: {
+    fontSize: 13,
+    color: '#92400e',
+    textAlign: 'center',
+  },
+});
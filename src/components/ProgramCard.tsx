@@ -7,8 +7,11 @@ import React, { memo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, AccessibilityInfo } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { Program } from '../types';
+import type { MatchSpan } from '../services/searchIndex';
+import { buildSnippet } from '../utils/snippet';
 import { useTheme } from '../context/ThemeContext';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import HighlightedText from './HighlightedText';
 
 // Helper to safely trigger haptics (respects reduce motion)
 const triggerHaptic = async () => {
@@ -23,8 +26,21 @@ interface ProgramCardProps {
   onPress: () => void;
   isFavorite?: boolean;
   onToggleFavorite?: () => void;
+  // Where a search matched; shows a highlighted snippet instead of the
+  // start of the description
+  matches?: MatchSpan[];
 }
 
+// Fields a snippet can be cut from, in order of preference, with the label
+// shown before text other than the description
+const SNIPPET_FIELDS: { field: 'description' | 'requirements' | 'cost' | 'howToApply' | 'city'; label?: string }[] = [
+  { field: 'description' },
+  { field: 'requirements', label: 'Requirements' },
+  { field: 'cost', label: 'Cost' },
+  { field: 'howToApply', label: 'How to apply' },
+  { field: 'city', label: 'City' },
+];
+
 const CATEGORY_ICONS: { [key: string]: string } = {
   'arts-culture': '🎨',
   'education': '📚',
@@ -36,6 +52,29 @@ const CATEGORY_ICONS: { [key: string]: string } = {
   'other': '📋',
 };
 
+/**
+ * Snippet of the first field with a match, falling back to the description
+ */
+function getSearchSnippet(program: Program, matches: MatchSpan[]) {
+  const source =
+    SNIPPET_FIELDS.find(({ field }) => program[field] && matches.some(match => match.field === field)) ??
+    SNIPPET_FIELDS[0];
+  const text = program[source.field] ?? '';
+  const snippet = buildSnippet(text, matches.filter(match => match.field === source.field));
+
+  const prefix = `${source.label ? `${source.label}: ` : ''}${snippet.truncatedStart ? '…' : ''}`;
+  return {
+    text: `${prefix}${snippet.text}${snippet.truncatedEnd ? '…' : ''}`,
+    highlights: snippet.highlights.map(({ start, end }) => ({
+      start: start + prefix.length,
+      end: end + prefix.length,
+    })),
+    // Read without the ellipses, which VoiceOver would otherwise announce
+    accessibilityText: `${source.label ? `${source.label}: ` : ''}${snippet.text}`,
+    matchedWords: snippet.highlights.map(({ start, end }) => snippet.text.slice(start, end)),
+  };
+}
+
 // Format eligibility tag to Title Case
 const formatEligibilityTag = (tag: string): string => {
   return tag
@@ -49,6 +88,7 @@ function ProgramCard({
   onPress,
   isFavorite = false,
   onToggleFavorite,
+  matches,
 }: ProgramCardProps) {
   const { colors, isDark } = useTheme();
   const { isTablet, cardElevationStyle } = useResponsiveLayout();
@@ -59,6 +99,19 @@ function ProgramCard({
   // Larger border radius for tablets for a more modern look
   const borderRadius = isTablet ? 16 : 12;
 
+  const snippet = matches ? getSearchSnippet(program, matches) : null;
+  const nameHighlights = matches?.filter(match => match.field === 'name') ?? [];
+  const matchedWords = snippet
+    ? Array.from(new Set([
+        ...nameHighlights.map(({ start, end }) => program.name.slice(start, end)),
+        ...snippet.matchedWords,
+      ].map(word => word.toLowerCase())))
+    : [];
+  const accessibilityLabel = snippet
+    ? `${program.name}. ${snippet.accessibilityText}.` +
+      (matchedWords.length > 0 ? ` Matches ${matchedWords.join(', ')}.` : '')
+    : `${program.name}. ${program.description}`;
+
   return (
     <TouchableOpacity
       style={[
@@ -69,15 +122,20 @@ function ProgramCard({
       onPress={onPress}
       activeOpacity={0.7}
       accessibilityRole="button"
-      accessibilityLabel={`${program.name}. ${program.description}`}
+      accessibilityLabel={accessibilityLabel}
       accessibilityHint="Double-tap to view full program details"
     >
       <View style={styles.header}>
         <View style={styles.titleRow}>
           <Text style={styles.icon} accessible={false}>{categoryIcon}</Text>
-          <Text style={[styles.title, { color: colors.text }]} numberOfLines={2} allowFontScaling={true} maxFontSizeMultiplier={1.5}>
-            {program.name}
-          </Text>
+          <HighlightedText
+            style={[styles.title, { color: colors.text }]}
+            text={program.name}
+            highlights={nameHighlights}
+            numberOfLines={2}
+            allowFontScaling={true}
+            maxFontSizeMultiplier={1.5}
+          />
         </View>
         {onToggleFavorite && (
           <TouchableOpacity
@@ -97,9 +155,21 @@ function ProgramCard({
         )}
       </View>
 
-      <Text style={[styles.description, { color: colors.textSecondary }]} numberOfLines={3} allowFontScaling={true} maxFontSizeMultiplier={1.5}>
-        {program.description}
-      </Text>
+      {snippet ? (
+        <HighlightedText
+          style={[styles.description, { color: colors.textSecondary }]}
+          highlightStyle={{ color: colors.text }}
+          text={snippet.text}
+          highlights={snippet.highlights}
+          numberOfLines={3}
+          allowFontScaling={true}
+          maxFontSizeMultiplier={1.5}
+        />
+      ) : (
+        <Text style={[styles.description, { color: colors.textSecondary }]} numberOfLines={3} allowFontScaling={true} maxFontSizeMultiplier={1.5}>
+          {program.description}
+        </Text>
+      )}
 
       {program.eligibility.length > 0 && (
         <View style={styles.eligibilityContainer}>
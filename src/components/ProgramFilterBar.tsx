@@ -0,0 +1,277 @@
+/**
+ * Program Filter Bar Component
+ * Eligibility, category and area filter chips with a sort button,
+ * shared by the Browse and Search screens
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, Alert, AlertButton } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Eligibility } from '../types';
+import {
+  ProgramFilters,
+  SortOption,
+  SORT_OPTIONS,
+  CATEGORY_CONFIG,
+  BAY_AREA_COUNTIES,
+  NO_FILTERS,
+  OTHER_AREAS,
+  hasActiveFilters,
+} from '../services/programFilter';
+import { useTheme } from '../context/ThemeContext';
+
+interface ProgramFilterBarProps {
+  filters: ProgramFilters;
+  onFiltersChange: (filters: ProgramFilters) => void;
+  sortBy: SortOption;
+  onSortChange: (sortBy: SortOption) => void;
+  // Sort orders to offer, in SORT_OPTIONS order
+  sortOptions: SortOption[];
+  // Category IDs to offer
+  categories: string[];
+  eligibilityTypes: Eligibility[];
+  // Result count shown next to the sort button
+  summary: string;
+}
+
+export default function ProgramFilterBar({
+  filters,
+  onFiltersChange,
+  sortBy,
+  onSortChange,
+  sortOptions,
+  categories,
+  eligibilityTypes,
+  summary,
+}: ProgramFilterBarProps) {
+  const { colors } = useTheme();
+  const update = (changes: Partial<ProgramFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  const toggleEligibility = (eligibilityId: string) => {
+    update({
+      eligibility: filters.eligibility.includes(eligibilityId)
+        ? filters.eligibility.filter(e => e !== eligibilityId)
+        : [...filters.eligibility, eligibilityId],
+    });
+  };
+
+  const getSortLabel = (): string => {
+    return SORT_OPTIONS.find(o => o.value === sortBy)?.label || 'Name (A-Z)';
+  };
+
+  const handleSortChange = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const buttons: AlertButton[] = [
+      ...SORT_OPTIONS.filter(option => sortOptions.includes(option.value)).map(option => ({
+        text: option.label,
+        onPress: () => onSortChange(option.value),
+      })),
+      { text: 'Cancel', style: 'cancel' },
+    ];
+    Alert.alert('Sort By', 'Choose how to sort programs', buttons);
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    accessibilityLabel: string,
+    isSelected: boolean,
+    onPress: () => void,
+    icon?: string
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.filterChip,
+        { backgroundColor: colors.inputBackground },
+        isSelected && styles.filterChipActive,
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityState={{ selected: isSelected }}
+    >
+      {icon && <Text style={styles.filterIcon} accessible={false}>{icon}</Text>}
+      <Text style={[styles.filterText, { color: colors.text }, isSelected && styles.filterTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderRow = (label: string, chips: React.ReactNode) => (
+    <View style={[styles.filterContainer, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+      <Text style={[styles.filterLabel, { color: colors.textSecondary }]}>{label}</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filterScroll}
+      >
+        {chips}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <View>
+      {renderRow('Eligibility', [
+        renderChip('all', 'All', 'All eligibility types', filters.eligibility.length === 0, () =>
+          update({ eligibility: [] })
+        ),
+        ...eligibilityTypes.map(eligibility =>
+          renderChip(
+            eligibility.id,
+            eligibility.name,
+            `${eligibility.name} eligibility`,
+            filters.eligibility.includes(eligibility.id),
+            () => toggleEligibility(eligibility.id),
+            eligibility.icon
+          )
+        ),
+      ])}
+
+      {renderRow('Category', [
+        renderChip('all', 'All', 'All categories', !filters.category, () => update({ category: null })),
+        ...categories.map(categoryId => {
+          const config = CATEGORY_CONFIG[categoryId] || { name: categoryId, icon: '📋' };
+          return renderChip(
+            categoryId,
+            config.name,
+            `${config.name} category`,
+            filters.category === categoryId,
+            () => update({ category: filters.category === categoryId ? null : categoryId }),
+            config.icon
+          );
+        }),
+      ])}
+
+      {renderRow('Where do you live?', [
+        renderChip('all', 'All', 'All areas', !filters.area, () => update({ area: null })),
+        ...BAY_AREA_COUNTIES.map(county =>
+          renderChip(
+            county.id,
+            county.name,
+            `${county.name} area`,
+            filters.area === county.id,
+            () => update({ area: filters.area === county.id ? null : county.id }),
+            county.icon
+          )
+        ),
+        renderChip(
+          OTHER_AREAS,
+          'Other',
+          'Other - show broad area programs only',
+          filters.area === OTHER_AREAS,
+          () => update({ area: filters.area === OTHER_AREAS ? null : OTHER_AREAS }),
+          '🌐'
+        ),
+      ])}
+
+      <View style={[styles.sortAndFiltersContainer, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <View style={styles.sortRow}>
+          <Text style={[styles.activeFiltersText, { color: colors.textSecondary }]}>{summary}</Text>
+          <TouchableOpacity
+            style={[styles.sortButton, { backgroundColor: colors.inputBackground }]}
+            onPress={handleSortChange}
+            accessibilityLabel={`Sort by ${getSortLabel()}`}
+            accessibilityRole="button"
+          >
+            <Text style={styles.sortIcon}>↕️</Text>
+            <Text style={[styles.sortButtonText, { color: colors.text }]}>{getSortLabel()}</Text>
+          </TouchableOpacity>
+        </View>
+        {hasActiveFilters(filters) && (
+          <TouchableOpacity
+            onPress={() => onFiltersChange(NO_FILTERS)}
+            style={styles.clearFiltersButton}
+            accessibilityRole="button"
+            accessibilityLabel="Clear all filters"
+            accessibilityHint="Double-tap to remove all active filters"
+          >
+            <Text style={[styles.clearFiltersText, { color: colors.primary }]}>Clear filters</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  filterContainer: {
+    backgroundColor: '#ffffff',
+    paddingVertical: 8,
+    paddingTop: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  filterLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  filterScroll: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f3f4f6',
+    marginRight: 8,
+  },
+  filterChipActive: {
+    backgroundColor: '#2563eb',
+  },
+  filterIcon: {
+    fontSize: 16,
+    marginRight: 6,
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  filterTextActive: {
+    color: '#ffffff',
+  },
+  sortAndFiltersContainer: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  sortIcon: {
+    fontSize: 14,
+    marginRight: 4,
+  },
+  sortButtonText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  activeFiltersText: {
+    fontSize: 13,
+  },
+  clearFiltersButton: {
+    marginTop: 8,
+  },
+  clearFiltersText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,45 @@
+/**
+ * Saved Only Button Component
+ * Header star that limits a program list to saved programs
+ */
+
+import React from 'react';
+import { TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../context/ThemeContext';
+
+interface SavedOnlyButtonProps {
+  savedOnly: boolean;
+  onToggle: () => void;
+}
+
+export default function SavedOnlyButton({ savedOnly, onToggle }: SavedOnlyButtonProps) {
+  const { colors } = useTheme();
+
+  return (
+    <TouchableOpacity
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onToggle();
+      }}
+      style={styles.headerButton}
+      accessibilityRole="button"
+      accessibilityLabel={savedOnly ? 'Show all programs' : 'Show saved programs only'}
+      accessibilityState={{ selected: savedOnly }}
+    >
+      <Ionicons
+        name={savedOnly ? 'star' : 'star-outline'}
+        size={24}
+        color={savedOnly ? '#f59e0b' : colors.text}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+});
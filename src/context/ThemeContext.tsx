@@ -4,7 +4,7 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useColorScheme } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appStorage } from '../services/storage';
 
 type ThemeMode = 'light' | 'dark' | 'system';
 
@@ -57,7 +57,7 @@ const darkColors: ThemeColors = {
   inputBackground: '#374151',
 };
 
-const THEME_STORAGE_KEY = '@bay_area_discounts:theme_mode';
+const THEME_STORAGE_KEY = 'theme_mode';
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
@@ -72,7 +72,7 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
 
   const loadThemePreference = async () => {
     try {
-      const saved = await AsyncStorage.getItem(THEME_STORAGE_KEY);
+      const saved = await appStorage.getString(THEME_STORAGE_KEY);
       if (saved && ['light', 'dark', 'system'].includes(saved)) {
         setModeState(saved as ThemeMode);
       }
@@ -86,7 +86,7 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
   const setMode = async (newMode: ThemeMode) => {
     setModeState(newMode);
     try {
-      await AsyncStorage.setItem(THEME_STORAGE_KEY, newMode);
+      await appStorage.setString(THEME_STORAGE_KEY, newMode);
     } catch (error) {
       console.error('Error saving theme preference:', error);
     }
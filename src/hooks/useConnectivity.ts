@@ -0,0 +1,13 @@
+/**
+ * Connectivity Hook
+ * Re-renders when the device goes offline or comes back online
+ */
+
+import { useSyncExternalStore } from 'react';
+import { connectivity, ConnectivityState } from '../services/connectivity';
+
+export function useConnectivity(): ConnectivityState {
+  return useSyncExternalStore(connectivity.subscribe, connectivity.getSnapshot);
+}
+
+export default useConnectivity;
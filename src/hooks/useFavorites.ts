@@ -0,0 +1,45 @@
+/**
+ * Favorites Hook
+ * Shared favorite state so saving a program on one screen updates every other
+ */
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { FavoriteProgram } from '../types';
+import { favoritesStore } from '../services/store';
+
+export interface FavoritesResult {
+  favorites: string[];
+  // Saved programs that are no longer listed, with their last-known details
+  removedFavorites: FavoriteProgram[];
+  isFavorite: (programId: string) => boolean;
+  toggleFavorite: (programId: string) => Promise<void>;
+}
+
+export function useFavorites(): FavoritesResult {
+  const records = useSyncExternalStore(favoritesStore.subscribe, favoritesStore.getSnapshot);
+
+  useEffect(() => {
+    favoritesStore.ensureLoaded();
+  }, []);
+
+  const favorites = useMemo(() => records.map(favorite => favorite.id), [records]);
+
+  const removedFavorites = useMemo(
+    () => records.filter(favorite => favorite.removedAt),
+    [records]
+  );
+
+  const isFavorite = useCallback(
+    (programId: string) => favorites.includes(programId),
+    [favorites]
+  );
+
+  const toggleFavorite = useCallback(
+    (programId: string) => favoritesStore.toggle(programId),
+    []
+  );
+
+  return { favorites, removedFavorites, isFavorite, toggleFavorite };
+}
+
+export default useFavorites;
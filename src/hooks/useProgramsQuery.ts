@@ -0,0 +1,47 @@
+/**
+ * Program Data Hooks
+ * Subscribe screens to the shared program and eligibility data
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { Program, Eligibility } from '../types';
+import { Query, programsQuery, eligibilityQuery } from '../services/store';
+
+export interface QueryResult<T> {
+  data: T;
+  error: unknown;
+  isLoading: boolean;
+  isRefreshing: boolean;
+  updatedAt: number | null;
+  refresh: () => Promise<void>;
+}
+
+function useQuery<T>(query: Query<T>, fallback: T): QueryResult<T> {
+  const state = useSyncExternalStore(query.subscribe, query.getSnapshot);
+
+  useEffect(() => {
+    query.ensureLoaded();
+  }, [query]);
+
+  return {
+    data: state.data ?? fallback,
+    error: state.error,
+    isLoading: state.isLoading,
+    isRefreshing: state.isRefreshing,
+    updatedAt: state.updatedAt,
+    refresh: () => query.revalidate(true),
+  };
+}
+
+const NO_PROGRAMS: Program[] = [];
+const NO_ELIGIBILITY: Eligibility[] = [];
+
+export function useProgramsQuery(): QueryResult<Program[]> {
+  return useQuery(programsQuery, NO_PROGRAMS);
+}
+
+export function useEligibilityQuery(): QueryResult<Eligibility[]> {
+  return useQuery(eligibilityQuery, NO_ELIGIBILITY);
+}
+
+export default useProgramsQuery;
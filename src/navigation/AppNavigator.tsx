@@ -6,9 +6,10 @@
 import React from 'react';
 import { Ionicons } from '@expo/vector-icons';
 import { NavigationContainer, DefaultTheme, DarkTheme } from '@react-navigation/native';
-import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createBottomTabNavigator, BottomTabBar } from '@react-navigation/bottom-tabs';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { useTheme } from '../context/ThemeContext';
+import OfflineBanner from '../components/OfflineBanner';
 
 // Screens
 import BrowseScreen from '../screens/BrowseScreen';
@@ -16,6 +17,7 @@ import SearchScreen from '../screens/SearchScreen';
 import ProgramDetailScreen from '../screens/ProgramDetailScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import AccessibilityScreen from '../screens/AccessibilityScreen';
+import WhatsNewScreen from '../screens/WhatsNewScreen';
 
 // Type definitions for navigation
 export type RootTabParamList = {
@@ -37,6 +39,8 @@ export type SearchStackParamList = {
 export type SettingsStackParamList = {
   SettingsList: undefined;
   Accessibility: undefined;
+  WhatsNew: undefined;
+  ProgramDetail: { programId: string };
 };
 
 const Tab = createBottomTabNavigator<RootTabParamList>();
@@ -121,6 +125,16 @@ function SettingsStackNavigator() {
         component={AccessibilityScreen}
         options={{ title: 'Accessibility' }}
       />
+      <SettingsStack.Screen
+        name="WhatsNew"
+        component={WhatsNewScreen}
+        options={{ title: "What's New" }}
+      />
+      <SettingsStack.Screen
+        name="ProgramDetail"
+        component={ProgramDetailScreen}
+        options={{ title: 'Program Details' }}
+      />
     </SettingsStack.Navigator>
   );
 }
@@ -158,6 +172,13 @@ export default function AppNavigator() {
   return (
     <NavigationContainer theme={navigationTheme}>
       <Tab.Navigator
+        // The offline banner sits just above the tab bar so it shows on every screen
+        tabBar={props => (
+          <>
+            <OfflineBanner />
+            <BottomTabBar {...props} />
+          </>
+        )}
         screenOptions={{
           tabBarActiveTintColor: colors.primary,
           tabBarInactiveTintColor: colors.textSecondary,
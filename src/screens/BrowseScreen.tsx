@@ -8,517 +8,156 @@ import {
   FlatList,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
-  ScrollView,
-  Alert,
 } from 'react-native';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
 import { Ionicons } from '@expo/vector-icons';
-import * as Haptics from 'expo-haptics';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { BrowseStackParamList } from '../navigation/AppNavigator';
-import { Program, Eligibility } from '../types';
-import APIService from '../services/api';
+import { useProgramsQuery, useEligibilityQuery } from '../hooks/useProgramsQuery';
+import { useFavorites } from '../hooks/useFavorites';
 import ProgramCard from '../components/ProgramCard';
+import ProgramFilterBar from '../components/ProgramFilterBar';
+import SavedOnlyButton from '../components/SavedOnlyButton';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ErrorMessage from '../components/ErrorMessage';
 import { useTheme } from '../context/ThemeContext';
+import APIService from '../services/api';
+import { QuerySyntaxError } from '../services/queryParser';
+import type { SearchResult } from '../services/searchIndex';
+import {
+  ProgramFilters,
+  SortOption,
+  SORT_OPTIONS,
+  NO_FILTERS,
+  applyFilters,
+  getAvailableCategories,
+  hasActiveFilters,
+  sortPrograms,
+} from '../services/programFilter';
 
 type BrowseScreenProps = {
   navigation: NativeStackNavigationProp<BrowseStackParamList, 'BrowseList'>;
 };
 
-type SortOption = 'name-asc' | 'name-desc' | 'area-asc' | 'area-desc' | 'category-asc' | 'category-desc' | 'recently-verified';
-
-const SORT_OPTIONS: { value: SortOption; label: string }[] = [
-  { value: 'name-asc', label: 'Name (A-Z)' },
-  { value: 'name-desc', label: 'Name (Z-A)' },
-  { value: 'area-asc', label: 'Area (A-Z)' },
-  { value: 'area-desc', label: 'Area (Z-A)' },
-  { value: 'category-asc', label: 'Category (A-Z)' },
-  { value: 'category-desc', label: 'Category (Z-A)' },
-  { value: 'recently-verified', label: 'Recently Verified' },
-];
-
-// Category display names and icons (mapped from actual program category values)
-const CATEGORY_CONFIG: { [key: string]: { name: string; icon: string } } = {
-  'community': { name: 'Community', icon: '🏘️' },
-  'education': { name: 'Education', icon: '📚' },
-  'equipment': { name: 'Equipment', icon: '🛠️' },
-  'finance': { name: 'Finance', icon: '💰' },
-  'food': { name: 'Food', icon: '🍎' },
-  'health': { name: 'Health', icon: '💊' },
-  'legal': { name: 'Legal', icon: '⚖️' },
-  'library_resources': { name: 'Library', icon: '📖' },
-  'pet_resources': { name: 'Pets', icon: '🐾' },
-  'recreation': { name: 'Recreation', icon: '⚽' },
-  'technology': { name: 'Technology', icon: '💻' },
-  'transportation': { name: 'Transportation', icon: '🚌' },
-  'utilities': { name: 'Utilities', icon: '🏠' },
-};
-
-// Bay Area counties for the "Where do I live?" filter
-const BAY_AREA_COUNTIES = [
-  { id: 'San Francisco', name: 'San Francisco', icon: '🌉' },
-  { id: 'Alameda County', name: 'Alameda County', icon: '📍' },
-  { id: 'Contra Costa County', name: 'Contra Costa', icon: '📍' },
-  { id: 'Marin County', name: 'Marin County', icon: '📍' },
-  { id: 'San Mateo County', name: 'San Mateo', icon: '📍' },
-  { id: 'Santa Clara County', name: 'Santa Clara', icon: '📍' },
-  { id: 'Solano County', name: 'Solano County', icon: '📍' },
-  { id: 'Sonoma County', name: 'Sonoma County', icon: '📍' },
-];
+type ListItem = Pick<SearchResult, 'program'> & Partial<Pick<SearchResult, 'matches'>>;
 
-// Areas that apply to everyone (used for "None of the Above" and as additions to county selections)
-const BROAD_AREAS = ['Bay Area', 'Bay Area-wide', 'Statewide', 'California', 'Nationwide'];
+const getProgram = (item: ListItem) => item.program;
 
 export default function BrowseScreen({ navigation }: BrowseScreenProps) {
   const { colors } = useTheme();
   const { numColumns, isTablet, horizontalPadding } = useResponsiveLayout();
-  const [programs, setPrograms] = useState<Program[]>([]);
-  const [eligibilityTypes, setEligibilityTypes] = useState<Eligibility[]>([]);
-  const [favorites, setFavorites] = useState<string[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [selectedArea, setSelectedArea] = useState<string | null>(null);
-  const [selectedEligibility, setSelectedEligibility] = useState<string[]>([]);
+  const programsQuery = useProgramsQuery();
+  const { data: eligibilityTypes } = useEligibilityQuery();
+  const { favorites, toggleFavorite } = useFavorites();
+  const programs = programsQuery.data;
+  const [filters, setFilters] = useState<ProgramFilters>(NO_FILTERS);
   const [sortBy, setSortBy] = useState<SortOption>('name-asc');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [showSavedOnly, setShowSavedOnly] = useState(false);
+  const loading = programsQuery.isLoading;
+  // Only block the screen with an error when there's nothing cached to show
+  const error = programsQuery.error && programs.length === 0 ? programsQuery.error : null;
   const flatListRef = useRef<FlatList>(null);
+  // Text narrowing the list, searched the same way as the Search tab
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
 
   // Add saved toggle button to header
   useLayoutEffect(() => {
     navigation.setOptions({
       headerRight: () => (
-        <TouchableOpacity
-          onPress={() => {
-            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            setShowSavedOnly(prev => !prev);
-          }}
-          style={styles.headerButton}
-          accessibilityRole="button"
-          accessibilityLabel={showSavedOnly ? 'Show all programs' : 'Show saved programs only'}
-          accessibilityState={{ selected: showSavedOnly }}
-        >
-          <Ionicons
-            name={showSavedOnly ? 'star' : 'star-outline'}
-            size={24}
-            color={showSavedOnly ? '#f59e0b' : colors.text}
-          />
-        </TouchableOpacity>
+        <SavedOnlyButton
+          savedOnly={filters.savedOnly}
+          onToggle={() => setFilters(prev => ({ ...prev, savedOnly: !prev.savedOnly }))}
+        />
       ),
     });
-  }, [navigation, showSavedOnly, colors.text]);
+  }, [navigation, filters.savedOnly]);
 
-  useEffect(() => {
-    loadData();
-  }, []);
+  // Tracked locally so background revalidation doesn't show the pull-to-refresh spinner
+  const [refreshing, setRefreshing] = useState(false);
 
   const loadData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const [programsData, eligibilityData, favoritesData] = await Promise.all([
-        APIService.getPrograms(),
-        APIService.getEligibility(),
-        APIService.getFavorites(),
-      ]);
-
-      setPrograms(programsData);
-      setEligibilityTypes(eligibilityData);
-      setFavorites(favoritesData);
-    } catch (err) {
-      setError('Failed to load programs. Please check your connection and try again.');
-      console.error('Load error:', err);
-    } finally {
-      setLoading(false);
-    }
+    setRefreshing(true);
+    await programsQuery.refresh();
+    setRefreshing(false);
   };
 
-  // Derive unique categories from programs
-  const derivedCategories = useMemo(() => {
-    const categorySet = new Set(programs.map(p => p.category));
-    return Array.from(categorySet)
-      .filter(cat => CATEGORY_CONFIG[cat])
-      .sort((a, b) => (CATEGORY_CONFIG[a]?.name || a).localeCompare(CATEGORY_CONFIG[b]?.name || b));
-  }, [programs]);
-
-  const filteredPrograms = useMemo(() => {
-    let filtered = programs;
-
-    // Filter to saved only if toggle is active
-    if (showSavedOnly) {
-      filtered = filtered.filter(p => favorites.includes(p.id));
-    }
-
-    if (selectedCategory) {
-      filtered = filtered.filter(p => p.category === selectedCategory);
+  // Search as the user types, and again when the program list is revalidated
+  useEffect(() => {
+    const query = searchQuery.trim();
+    const requestId = ++requestIdRef.current;
+    if (query.length < 2) {
+      setSearchResults(null);
+      setQueryError(null);
+      return;
     }
 
-    if (selectedArea) {
-      if (selectedArea === 'none') {
-        // "None of the Above" - show only broad area programs
-        filtered = filtered.filter(p =>
-          p.areas.some(area => BROAD_AREAS.includes(area))
-        );
-      } else {
-        // Specific county - show programs for that county PLUS broad area programs
-        filtered = filtered.filter(p =>
-          p.areas.includes(selectedArea) || p.areas.some(area => BROAD_AREAS.includes(area))
-        );
+    const debounceTimer = setTimeout(async () => {
+      try {
+        const results = await APIService.searchPrograms(query);
+        if (requestId === requestIdRef.current) {
+          setSearchResults(results);
+          setQueryError(null);
+        }
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        if (err instanceof QuerySyntaxError) {
+          setSearchResults([]);
+          setQueryError(err.message);
+        } else {
+          console.error('Search error:', err);
+        }
       }
-    }
+    }, 300);
 
-    if (selectedEligibility.length > 0) {
-      filtered = filtered.filter(p =>
-        selectedEligibility.some(e => p.eligibility.includes(e))
-      );
-    }
+    return () => clearTimeout(debounceTimer);
+  }, [searchQuery, programs]);
 
-    // Apply sorting
-    const sorted = [...filtered];
-    switch (sortBy) {
-      case 'name-asc':
-        sorted.sort((a, b) => a.name.localeCompare(b.name));
-        break;
-      case 'name-desc':
-        sorted.sort((a, b) => b.name.localeCompare(a.name));
-        break;
-      case 'area-asc':
-        sorted.sort((a, b) => {
-          const aArea = a.city || a.areas[0] || '';
-          const bArea = b.city || b.areas[0] || '';
-          return aArea.localeCompare(bArea);
-        });
-        break;
-      case 'area-desc':
-        sorted.sort((a, b) => {
-          const aArea = a.city || a.areas[0] || '';
-          const bArea = b.city || b.areas[0] || '';
-          return bArea.localeCompare(aArea);
-        });
-        break;
-      case 'category-asc':
-        sorted.sort((a, b) => {
-          const aName = CATEGORY_CONFIG[a.category]?.name || a.category;
-          const bName = CATEGORY_CONFIG[b.category]?.name || b.category;
-          return aName.localeCompare(bName);
-        });
-        break;
-      case 'category-desc':
-        sorted.sort((a, b) => {
-          const aName = CATEGORY_CONFIG[a.category]?.name || a.category;
-          const bName = CATEGORY_CONFIG[b.category]?.name || b.category;
-          return bName.localeCompare(aName);
-        });
-        break;
-      case 'recently-verified':
-        sorted.sort((a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime());
-        break;
-    }
+  const derivedCategories = useMemo(() => getAvailableCategories(programs), [programs]);
 
-    return sorted;
-  }, [programs, selectedCategory, selectedArea, selectedEligibility, sortBy, showSavedOnly, favorites]);
+  // Best match only means something while there's text to match
+  const effectiveSort = sortBy === 'relevance' && !searchResults ? 'name-asc' : sortBy;
 
-  const handleToggleFavorite = useCallback(async (programId: string) => {
-    // Capture the current state BEFORE optimistic update
-    const wasCurrentlyFavorite = favorites.includes(programId);
-
-    // Optimistic update with safe functional state updates
-    setFavorites(prev => {
-      return wasCurrentlyFavorite
-        ? prev.filter(id => id !== programId)
-        : [...prev, programId];
-    });
+  const filteredPrograms = useMemo(() => {
+    const items: ListItem[] = searchResults ?? programs.map(program => ({ program }));
+    return sortPrograms(applyFilters(items, getProgram, filters, favorites), getProgram, effectiveSort);
+  }, [programs, searchResults, filters, effectiveSort, favorites]);
 
+  const handleToggleFavorite = useCallback(async (programId: string) => {
     try {
-      if (wasCurrentlyFavorite) {
-        await APIService.removeFavorite(programId);
-      } else {
-        await APIService.addFavorite(programId);
-      }
+      // The store updates optimistically and rolls back on failure
+      await toggleFavorite(programId);
     } catch (err) {
-      // Revert on failure - restore to original state
-      setFavorites(prev => {
-        if (wasCurrentlyFavorite) {
-          // Was a favorite, we tried to remove, failed - add it back
-          return prev.includes(programId) ? prev : [...prev, programId];
-        } else {
-          // Was not a favorite, we tried to add, failed - remove it
-          return prev.filter(id => id !== programId);
-        }
-      });
       console.error('Toggle favorite error:', err);
     }
-  }, [favorites]);
-
-  const toggleEligibility = (eligibilityId: string) => {
-    setSelectedEligibility(prev => {
-      if (prev.includes(eligibilityId)) {
-        return prev.filter(e => e !== eligibilityId);
-      } else {
-        return [...prev, eligibilityId];
-      }
-    });
-  };
-
-  const handleSortChange = () => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    Alert.alert(
-      'Sort By',
-      'Choose how to sort programs',
-      SORT_OPTIONS.map(option => ({
-        text: option.label,
-        onPress: () => setSortBy(option.value),
-      })).concat([{ text: 'Cancel', style: 'cancel' } as any])
-    );
-  };
-
-  const getSortLabel = (): string => {
-    return SORT_OPTIONS.find(o => o.value === sortBy)?.label || 'Name (A-Z)';
-  };
-
-  const renderEligibilityFilter = () => (
-    <View style={[styles.filterContainer, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
-      <Text style={[styles.filterLabel, { color: colors.textSecondary }]}>Eligibility</Text>
-      <ScrollView
-        horizontal
-        showsHorizontalScrollIndicator={false}
-        contentContainerStyle={styles.filterScroll}
-      >
-        <TouchableOpacity
-          style={[
-            styles.filterChip,
-            { backgroundColor: colors.inputBackground },
-            selectedEligibility.length === 0 && styles.filterChipActive,
-          ]}
-          onPress={() => setSelectedEligibility([])}
-          accessibilityRole="button"
-          accessibilityLabel="All eligibility types"
-          accessibilityState={{ selected: selectedEligibility.length === 0 }}
-        >
-          <Text style={[styles.filterText, { color: colors.text }, selectedEligibility.length === 0 && styles.filterTextActive]}>
-            All
-          </Text>
-        </TouchableOpacity>
-
-        {eligibilityTypes.map(eligibility => (
-          <TouchableOpacity
-            key={eligibility.id}
-            style={[
-              styles.filterChip,
-              { backgroundColor: colors.inputBackground },
-              selectedEligibility.includes(eligibility.id) && styles.filterChipActive,
-            ]}
-            onPress={() => toggleEligibility(eligibility.id)}
-            accessibilityRole="button"
-            accessibilityLabel={`${eligibility.name} eligibility`}
-            accessibilityState={{ selected: selectedEligibility.includes(eligibility.id) }}
-          >
-            <Text style={styles.filterIcon} accessible={false}>{eligibility.icon}</Text>
-            <Text
-              style={[
-                styles.filterText,
-                { color: colors.text },
-                selectedEligibility.includes(eligibility.id) && styles.filterTextActive,
-              ]}
-            >
-              {eligibility.name}
-            </Text>
-          </TouchableOpacity>
-        ))}
-      </ScrollView>
-    </View>
-  );
-
-  const renderCategoryFilter = () => (
-    <View style={[styles.filterContainer, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
-      <Text style={[styles.filterLabel, { color: colors.textSecondary }]}>Category</Text>
-      <ScrollView
-        horizontal
-        showsHorizontalScrollIndicator={false}
-        contentContainerStyle={styles.filterScroll}
-      >
-        <TouchableOpacity
-          style={[
-            styles.filterChip,
-            { backgroundColor: colors.inputBackground },
-            !selectedCategory && styles.filterChipActive,
-          ]}
-          onPress={() => setSelectedCategory(null)}
-          accessibilityRole="button"
-          accessibilityLabel="All categories"
-          accessibilityState={{ selected: !selectedCategory }}
-        >
-          <Text style={[styles.filterText, { color: colors.text }, !selectedCategory && styles.filterTextActive]}>
-            All
-          </Text>
-        </TouchableOpacity>
-
-        {derivedCategories.map(categoryId => {
-          const config = CATEGORY_CONFIG[categoryId] || { name: categoryId, icon: '📋' };
-          const isSelected = selectedCategory === categoryId;
-          return (
-            <TouchableOpacity
-              key={categoryId}
-              style={[
-                styles.filterChip,
-                { backgroundColor: colors.inputBackground },
-                isSelected && styles.filterChipActive,
-              ]}
-              onPress={() => setSelectedCategory(prev => prev === categoryId ? null : categoryId)}
-              accessibilityRole="button"
-              accessibilityLabel={`${config.name} category`}
-              accessibilityState={{ selected: isSelected }}
-            >
-              <Text style={styles.filterIcon} accessible={false}>{config.icon}</Text>
-              <Text
-                style={[
-                  styles.filterText,
-                  { color: colors.text },
-                  isSelected && styles.filterTextActive,
-                ]}
-              >
-                {config.name}
-              </Text>
-            </TouchableOpacity>
-          );
-        })}
-      </ScrollView>
-    </View>
-  );
-
-  const renderAreaFilter = () => (
-    <View style={[styles.filterContainer, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
-      <Text style={[styles.filterLabel, { color: colors.textSecondary }]}>Where do you live?</Text>
-      <ScrollView
-        horizontal
-        showsHorizontalScrollIndicator={false}
-        contentContainerStyle={styles.filterScroll}
-      >
-        <TouchableOpacity
-          style={[
-            styles.filterChip,
-            { backgroundColor: colors.inputBackground },
-            !selectedArea && styles.filterChipActive,
-          ]}
-          onPress={() => setSelectedArea(null)}
-          accessibilityRole="button"
-          accessibilityLabel="All areas"
-          accessibilityState={{ selected: !selectedArea }}
-        >
-          <Text style={[styles.filterText, { color: colors.text }, !selectedArea && styles.filterTextActive]}>
-            All
-          </Text>
-        </TouchableOpacity>
-
-        {BAY_AREA_COUNTIES.map(county => {
-          const isSelected = selectedArea === county.id;
-          return (
-            <TouchableOpacity
-              key={county.id}
-              style={[
-                styles.filterChip,
-                { backgroundColor: colors.inputBackground },
-                isSelected && styles.filterChipActive,
-              ]}
-              onPress={() => setSelectedArea(prev => prev === county.id ? null : county.id)}
-              accessibilityRole="button"
-              accessibilityLabel={`${county.name} area`}
-              accessibilityState={{ selected: isSelected }}
-            >
-              <Text style={styles.filterIcon} accessible={false}>{county.icon}</Text>
-              <Text
-                style={[
-                  styles.filterText,
-                  { color: colors.text },
-                  isSelected && styles.filterTextActive,
-                ]}
-              >
-                {county.name}
-              </Text>
-            </TouchableOpacity>
-          );
-        })}
-
-        <TouchableOpacity
-          style={[
-            styles.filterChip,
-            { backgroundColor: colors.inputBackground },
-            selectedArea === 'none' && styles.filterChipActive,
-          ]}
-          onPress={() => setSelectedArea(prev => prev === 'none' ? null : 'none')}
-          accessibilityRole="button"
-          accessibilityLabel="Other - show broad area programs only"
-          accessibilityState={{ selected: selectedArea === 'none' }}
-        >
-          <Text style={styles.filterIcon} accessible={false}>🌐</Text>
-          <Text
-            style={[
-              styles.filterText,
-              { color: colors.text },
-              selectedArea === 'none' && styles.filterTextActive,
-            ]}
-          >
-            Other
-          </Text>
-        </TouchableOpacity>
-      </ScrollView>
-    </View>
-  );
+  }, [toggleFavorite]);
 
-  const renderSortAndFilters = () => {
-    const hasFilters = selectedCategory || selectedArea || selectedEligibility.length > 0 || showSavedOnly;
-
-    return (
-      <View style={[styles.sortAndFiltersContainer, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
-        <View style={styles.sortRow}>
-          <Text style={[styles.activeFiltersText, { color: colors.textSecondary }]}>
-            {showSavedOnly
-              ? `${filteredPrograms.length} saved program${filteredPrograms.length !== 1 ? 's' : ''}`
-              : hasFilters
-              ? `Showing ${filteredPrograms.length} of ${programs.length} programs`
-              : `${programs.length} programs`}
-          </Text>
-          <TouchableOpacity
-            style={[styles.sortButton, { backgroundColor: colors.inputBackground }]}
-            onPress={handleSortChange}
-            accessibilityLabel={`Sort by ${getSortLabel()}`}
-            accessibilityRole="button"
-          >
-            <Text style={styles.sortIcon}>↕️</Text>
-            <Text style={[styles.sortButtonText, { color: colors.text }]}>{getSortLabel()}</Text>
-          </TouchableOpacity>
-        </View>
-        {hasFilters && (
-          <TouchableOpacity
-            onPress={() => {
-              setSelectedCategory(null);
-              setSelectedArea(null);
-              setSelectedEligibility([]);
-              setShowSavedOnly(false);
-            }}
-            style={styles.clearFiltersButton}
-            accessibilityRole="button"
-            accessibilityLabel="Clear all filters"
-            accessibilityHint="Double-tap to remove all active filters"
-          >
-            <Text style={[styles.clearFiltersText, { color: colors.primary }]}>Clear filters</Text>
-          </TouchableOpacity>
-        )}
-      </View>
-    );
+  const getSummary = (): string => {
+    const count = filteredPrograms.length;
+    if (filters.savedOnly) {
+      return `${count} saved program${count !== 1 ? 's' : ''}`;
+    }
+    return hasActiveFilters(filters) || searchResults
+      ? `Showing ${count} of ${programs.length} programs`
+      : `${programs.length} programs`;
   };
 
   const renderListHeader = () => (
-    <View>
-      {renderEligibilityFilter()}
-      {renderCategoryFilter()}
-      {renderAreaFilter()}
-      {renderSortAndFilters()}
-    </View>
+    <ProgramFilterBar
+      filters={filters}
+      onFiltersChange={setFilters}
+      sortBy={effectiveSort}
+      onSortChange={setSortBy}
+      sortOptions={SORT_OPTIONS
+        .map(option => option.value)
+        .filter(option => option !== 'relevance' || !!searchResults)}
+      categories={derivedCategories}
+      eligibilityTypes={eligibilityTypes}
+      summary={getSummary()}
+    />
   );
 
   const scrollToTop = useCallback(() => {
@@ -530,24 +169,59 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
   }
 
   if (error) {
-    return <ErrorMessage message={error} onRetry={loadData} />;
+    return <ErrorMessage error={error} onRetry={loadData} />;
   }
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.searchContainer, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <View style={[styles.searchInputContainer, { backgroundColor: colors.inputBackground }]}>
+          <Text style={styles.searchIcon} accessible={false}>🔍</Text>
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            placeholder="Filter by keyword..."
+            placeholderTextColor={colors.textSecondary}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+            onSubmitEditing={scrollToTop}
+            accessibilityLabel="Filter programs by keyword"
+            accessibilityHint="Enter at least 2 characters to narrow the list"
+          />
+          {searchQuery.length > 0 && (
+            <TouchableOpacity
+              onPress={() => setSearchQuery('')}
+              style={styles.clearButton}
+              accessibilityRole="button"
+              accessibilityLabel="Clear keyword"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Text style={[styles.clearIcon, { color: colors.textSecondary }]} accessible={false}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {queryError && (
+          <Text style={styles.queryErrorText} accessibilityRole="alert">
+            {queryError}
+          </Text>
+        )}
+      </View>
       <FlatList
         ref={flatListRef}
         key={numColumns}
         data={filteredPrograms}
         numColumns={numColumns}
-        keyExtractor={item => item.id}
+        keyExtractor={item => item.program.id}
         renderItem={({ item }) => (
           <View style={numColumns > 1 ? { flex: 1, maxWidth: `${100 / numColumns}%` } : undefined}>
             <ProgramCard
-              program={item}
-              onPress={() => navigation.navigate('ProgramDetail', { programId: item.id })}
-              isFavorite={favorites.includes(item.id)}
-              onToggleFavorite={() => handleToggleFavorite(item.id)}
+              program={item.program}
+              matches={item.matches}
+              onPress={() => navigation.navigate('ProgramDetail', { programId: item.program.id })}
+              isFavorite={favorites.includes(item.program.id)}
+              onToggleFavorite={() => handleToggleFavorite(item.program.id)}
             />
           </View>
         )}
@@ -557,12 +231,13 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
           isTablet && { paddingHorizontal: horizontalPadding - 16 }
         ]}
         columnWrapperStyle={numColumns > 1 ? styles.columnWrapper : undefined}
-        refreshing={loading}
+        refreshing={refreshing}
         onRefresh={loadData}
         onScrollToIndexFailed={() => {}}
+        keyboardShouldPersistTaps="handled"
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
-            {showSavedOnly ? (
+            {filters.savedOnly && !searchResults ? (
               <>
                 <Ionicons name="star-outline" size={48} color={colors.textSecondary} style={styles.emptyIcon} />
                 <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No saved programs yet</Text>
@@ -585,83 +260,41 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f9fafb',
   },
-  filterContainer: {
+  searchContainer: {
     backgroundColor: '#ffffff',
-    paddingVertical: 8,
-    paddingTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
     borderBottomWidth: 1,
     borderBottomColor: '#e5e7eb',
   },
-  filterLabel: {
-    fontSize: 12,
-    fontWeight: '600',
-    textTransform: 'uppercase',
-    letterSpacing: 0.5,
-    paddingHorizontal: 16,
-    marginBottom: 8,
-  },
-  filterScroll: {
-    paddingHorizontal: 16,
-    gap: 8,
-  },
-  filterChip: {
+  searchInputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    borderRadius: 20,
     backgroundColor: '#f3f4f6',
-    marginRight: 8,
-  },
-  filterChipActive: {
-    backgroundColor: '#2563eb',
-  },
-  filterIcon: {
-    fontSize: 16,
-    marginRight: 6,
-  },
-  filterText: {
-    fontSize: 14,
-    fontWeight: '500',
-    color: '#374151',
-  },
-  filterTextActive: {
-    color: '#ffffff',
-  },
-  sortAndFiltersContainer: {
-    paddingHorizontal: 16,
-    paddingVertical: 10,
-    borderBottomWidth: 1,
-  },
-  sortRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-  },
-  sortButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
+    borderRadius: 12,
     paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 16,
+    height: 44,
   },
-  sortIcon: {
-    fontSize: 14,
-    marginRight: 4,
+  searchIcon: {
+    fontSize: 18,
+    marginRight: 8,
   },
-  sortButtonText: {
-    fontSize: 13,
-    fontWeight: '500',
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111827',
   },
-  activeFiltersText: {
-    fontSize: 13,
+  clearButton: {
+    padding: 4,
   },
-  clearFiltersButton: {
-    marginTop: 8,
+  clearIcon: {
+    fontSize: 18,
+    color: '#6b7280',
   },
-  clearFiltersText: {
+  queryErrorText: {
     fontSize: 13,
-    fontWeight: '600',
+    color: '#b91c1c',
+    marginTop: 6,
   },
   listContent: {
     paddingVertical: 8,
@@ -686,8 +319,4 @@ const styles = StyleSheet.create({
     marginTop: 8,
     textAlign: 'center',
   },
-  headerButton: {
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-  },
 });
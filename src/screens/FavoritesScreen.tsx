@@ -2,13 +2,13 @@
  * Favorites Screen - Saved programs
  */
 
-import React, { useEffect, useState } from 'react';
-import { View, FlatList, StyleSheet, Text } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import { View, FlatList, StyleSheet, Text, TouchableOpacity } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { useFocusEffect } from '@react-navigation/native';
 import { BrowseStackParamList } from '../navigation/AppNavigator';
-import { Program } from '../types';
-import APIService from '../services/api';
+import { FavoriteProgram } from '../types';
+import { useProgramsQuery } from '../hooks/useProgramsQuery';
+import { useFavorites } from '../hooks/useFavorites';
 import ProgramCard from '../components/ProgramCard';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { useTheme } from '../context/ThemeContext';
@@ -21,48 +21,76 @@ type FavoritesScreenProps = {
 export default function FavoritesScreen({ navigation }: FavoritesScreenProps) {
   const { colors } = useTheme();
   const { numColumns, isTablet, horizontalPadding } = useResponsiveLayout();
-  const [programs, setPrograms] = useState<Program[]>([]);
-  const [favorites, setFavorites] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: allPrograms, isLoading: loading, refresh } = useProgramsQuery();
+  const { favorites, removedFavorites, toggleFavorite } = useFavorites();
+  const [refreshing, setRefreshing] = useState(false);
 
-  // Reload favorites when screen comes into focus
-  useFocusEffect(
-    React.useCallback(() => {
-      loadFavorites();
-    }, [])
+  // Filter programs to only show favorites
+  const programs = useMemo(
+    () => allPrograms.filter(p => favorites.includes(p.id)),
+    [allPrograms, favorites]
   );
 
   const loadFavorites = async () => {
-    try {
-      setLoading(true);
-
-      const [favoriteIds, allPrograms] = await Promise.all([
-        APIService.getFavorites(),
-        APIService.getPrograms(),
-      ]);
-
-      setFavorites(favoriteIds);
-
-      // Filter programs to only show favorites
-      const favoritePrograms = allPrograms.filter(p => favoriteIds.includes(p.id));
-      setPrograms(favoritePrograms);
-    } catch (err) {
-      console.error('Load favorites error:', err);
-    } finally {
-      setLoading(false);
-    }
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
   };
 
   const handleToggleFavorite = async (programId: string) => {
     try {
-      await APIService.removeFavorite(programId);
-      setFavorites(favorites.filter(id => id !== programId));
-      setPrograms(programs.filter(p => p.id !== programId));
+      await toggleFavorite(programId);
     } catch (err) {
       console.error('Remove favorite error:', err);
     }
   };
 
+  const renderRemovedFavorite = (favorite: FavoriteProgram) => {
+    const name = favorite.snapshot?.name ?? 'Saved program';
+    const removedOn = new Date(favorite.removedAt ?? favorite.savedAt).toLocaleDateString();
+
+    return (
+      <View
+        key={favorite.id}
+        style={[styles.removedCard, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+      >
+        <View
+          accessible={true}
+          accessibilityLabel={`${name}. No longer listed since ${removedOn}.`}
+        >
+          <Text style={[styles.removedName, { color: colors.text }]}>{name}</Text>
+          <Text style={[styles.removedMeta, { color: colors.textSecondary }]}>
+            No longer listed since {removedOn}
+          </Text>
+          {favorite.snapshot?.description ? (
+            <Text style={[styles.removedDetail, { color: colors.textSecondary }]} numberOfLines={3}>
+              {favorite.snapshot.description}
+            </Text>
+          ) : null}
+          {favorite.snapshot?.phone ? (
+            <Text style={[styles.removedDetail, { color: colors.textSecondary }]}>
+              📞 {favorite.snapshot.phone}
+            </Text>
+          ) : null}
+          {favorite.snapshot?.website ? (
+            <Text style={[styles.removedDetail, { color: colors.textSecondary }]} numberOfLines={1}>
+              🌐 {favorite.snapshot.website}
+            </Text>
+          ) : null}
+        </View>
+        <TouchableOpacity
+          style={styles.dismissButton}
+          onPress={() => handleToggleFavorite(favorite.id)}
+          accessibilityRole="button"
+          accessibilityLabel={`Dismiss ${name}`}
+          accessibilityHint="Double-tap to remove it from your saved programs"
+        >
+          <Text style={[styles.dismissText, { color: colors.primary }]}>Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   if (loading) {
     return <LoadingSpinner message="Loading saved programs..." />;
   }
@@ -89,16 +117,34 @@ export default function FavoritesScreen({ navigation }: FavoritesScreenProps) {
           isTablet && { paddingHorizontal: horizontalPadding - 16 }
         ]}
         columnWrapperStyle={numColumns > 1 ? styles.columnWrapper : undefined}
-        refreshing={loading}
+        refreshing={refreshing}
         onRefresh={loadFavorites}
+        ListFooterComponent={
+          removedFavorites.length > 0 ? (
+            <View style={styles.removedSection}>
+              <Text
+                style={[styles.removedSectionTitle, { color: colors.textSecondary }]}
+                accessibilityRole="header"
+              >
+                No longer listed
+              </Text>
+              <Text style={[styles.removedSectionHint, { color: colors.textSecondary }]}>
+                These saved programs were removed from Bay Area Discounts. Their last-known details are shown below.
+              </Text>
+              {removedFavorites.map(renderRemovedFavorite)}
+            </View>
+          ) : null
+        }
         ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyIcon}>⭐</Text>
-            <Text style={[styles.emptyText, { color: colors.text }]}>No saved programs yet</Text>
-            <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>
-              Tap the star icon on any program to save it here
-            </Text>
-          </View>
+          removedFavorites.length > 0 ? null : (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyIcon}>⭐</Text>
+              <Text style={[styles.emptyText, { color: colors.text }]}>No saved programs yet</Text>
+              <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>
+                Tap the star icon on any program to save it here
+              </Text>
+            </View>
+          )
         }
       />
     </View>
@@ -138,4 +184,47 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     textAlign: 'center',
   },
+  removedSection: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  removedSectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  removedSectionHint: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  removedCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    padding: 16,
+    marginBottom: 12,
+  },
+  removedName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  removedMeta: {
+    fontSize: 13,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  removedDetail: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  dismissButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingVertical: 4,
+  },
+  dismissText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
 });
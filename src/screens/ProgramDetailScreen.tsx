@@ -17,8 +17,10 @@ import * as Haptics from 'expo-haptics';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { BrowseStackParamList } from '../navigation/AppNavigator';
 import { Program } from '../types';
-import APIService from '../services/api';
+import APIService, { ProgramDetails } from '../services/api';
 import { openExternalUrl } from '../utils/openExternal';
+import { useFavorites } from '../hooks/useFavorites';
+import { getErrorKind } from '../services/errors';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ErrorMessage from '../components/ErrorMessage';
 
@@ -38,9 +40,16 @@ const CATEGORY_ICONS: { [key: string]: string } = {
 export default function ProgramDetailScreen({ route, navigation }: Props) {
   const { programId } = route.params;
   const [program, setProgram] = useState<Program | null>(null);
-  const [isFavorite, setIsFavorite] = useState(false);
+  // Set when the network was unreachable and an expired saved copy is shown
+  const [staleSince, setStaleSince] = useState<number | null>(null);
+  const { isFavorite: checkFavorite, toggleFavorite } = useFavorites();
+  const isFavorite = checkFavorite(programId);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  // Last saved copy, offered when the program can't be loaded
+  const [savedCopy, setSavedCopy] = useState<ProgramDetails | null>(null);
+  // Set when the saved copy is shown because the program is no longer published
+  const [isRemoved, setIsRemoved] = useState(false);
 
   useEffect(() => {
     loadProgram();
@@ -50,31 +59,33 @@ export default function ProgramDetailScreen({ route, navigation }: Props) {
     try {
       setLoading(true);
       setError(null);
+      setSavedCopy(null);
+      setIsRemoved(false);
 
-      const [programData, favoriteStatus] = await Promise.all([
-        APIService.getProgram(programId),
-        APIService.isFavorite(programId),
-      ]);
+      const details = await APIService.getProgramDetails(programId);
 
-      setProgram(programData);
-      setIsFavorite(favoriteStatus);
+      setProgram(details.program);
+      setStaleSince(details.isStale ? details.fetchedAt : null);
     } catch (err) {
-      setError('Failed to load program details');
+      setError(err);
+      setSavedCopy(await APIService.getSavedProgram(programId));
       console.error('Load error:', err);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleShowSaved = () => {
+    if (!savedCopy) return;
+    setProgram(savedCopy.program);
+    setStaleSince(savedCopy.fetchedAt);
+    setIsRemoved(getErrorKind(error) === 'not-found');
+    setError(null);
+  };
+
   const handleToggleFavorite = async () => {
     try {
-      if (isFavorite) {
-        await APIService.removeFavorite(programId);
-        setIsFavorite(false);
-      } else {
-        await APIService.addFavorite(programId);
-        setIsFavorite(true);
-      }
+      await toggleFavorite(programId);
     } catch (err) {
       Alert.alert('Error', 'Failed to update favorites');
     }
@@ -122,13 +133,33 @@ export default function ProgramDetailScreen({ route, navigation }: Props) {
   }
 
   if (error || !program) {
-    return <ErrorMessage message={error || 'Program not found'} onRetry={loadProgram} />;
+    return (
+      <ErrorMessage
+        error={error}
+        onRetry={loadProgram}
+        onShowSaved={savedCopy ? handleShowSaved : undefined}
+      />
+    );
   }
 
   const categoryIcon = CATEGORY_ICONS[program.category] || '📋';
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {staleSince !== null && (
+        <TouchableOpacity
+          style={styles.offlineNotice}
+          onPress={loadProgram}
+          accessibilityRole="button"
+          accessibilityLabel={`${isRemoved ? 'No longer listed' : 'Offline'}. Showing saved information from ${new Date(staleSince).toLocaleDateString()}`}
+          accessibilityHint="Double-tap to try loading the latest details"
+        >
+          <Text style={styles.offlineNoticeText}>
+            {isRemoved ? '🔍 No longer listed' : '📴 Offline'} — showing saved info from {new Date(staleSince).toLocaleDateString()}. Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      )}
+
       <View style={styles.header}>
         <View style={styles.titleRow}>
           <Text style={styles.icon}>{categoryIcon}</Text>
@@ -362,4 +393,15 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#9ca3af',
   },
+  offlineNotice: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+  offlineNoticeText: {
+    fontSize: 14,
+    color: '#92400e',
+  },
 });
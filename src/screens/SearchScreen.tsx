@@ -2,7 +2,7 @@
  * Search Screen - Search and filter programs
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useLayoutEffect, useMemo } from 'react';
 import {
   View,
   TextInput,
@@ -11,16 +11,52 @@ import {
   Text,
   TouchableOpacity,
   ScrollView,
+  Keyboard,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
 import { SearchStackParamList } from '../navigation/AppNavigator';
-import { Program } from '../types';
 import APIService from '../services/api';
+import type { SearchResult } from '../services/searchIndex';
+import type { AutocompleteSuggestion } from '../services/autocomplete';
+import {
+  ProgramFilters,
+  SortOption,
+  SORT_OPTIONS,
+  NO_FILTERS,
+  applyFilters,
+  getAvailableCategories,
+  hasActiveFilters,
+  sortPrograms,
+} from '../services/programFilter';
+import { QuerySyntaxError } from '../services/queryParser';
 import ProgramCard from '../components/ProgramCard';
+import ProgramFilterBar from '../components/ProgramFilterBar';
+import SavedOnlyButton from '../components/SavedOnlyButton';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { useTheme } from '../context/ThemeContext';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { useProgramsQuery, useEligibilityQuery } from '../hooks/useProgramsQuery';
+import { useFavorites } from '../hooks/useFavorites';
+
+const AUTOCOMPLETE_DETAILS: Record<AutocompleteSuggestion['type'], { kind: string; hint: string }> = {
+  program: { kind: 'Program', hint: 'Double-tap to open this program' },
+  category: { kind: 'Category', hint: 'Double-tap to show programs in this category' },
+  eligibility: { kind: 'Eligibility', hint: 'Double-tap to show programs for this group' },
+  synonym: { kind: 'Search term', hint: 'Double-tap to search for this' },
+};
+
+function getAutocompleteIcon(suggestion: AutocompleteSuggestion): string {
+  switch (suggestion.type) {
+    case 'program':
+      return '📋';
+    case 'category':
+    case 'eligibility':
+      return suggestion.icon;
+    default:
+      return '🔍';
+  }
+}
 
 type SearchScreenProps = {
   navigation: NativeStackNavigationProp<SearchStackParamList, 'SearchList'>;
@@ -30,18 +66,52 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
   const { colors } = useTheme();
   const { numColumns, isTablet, horizontalPadding } = useResponsiveLayout();
   const [searchQuery, setSearchQuery] = useState('');
-  const [programs, setPrograms] = useState<Program[]>([]);
-  const [favorites, setFavorites] = useState<string[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const { data: allPrograms } = useProgramsQuery();
+  const { data: eligibilityTypes } = useEligibilityQuery();
+  const { favorites, toggleFavorite } = useFavorites();
+  // The same filters and sort orders as Browse, applied to search results
+  const [filters, setFilters] = useState<ProgramFilters>(NO_FILTERS);
+  const [sortBy, setSortBy] = useState<SortOption>('relevance');
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [searched, setSearched] = useState(false);
+  // Corrected spelling, offered when part of the query matched nothing
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  // Why a structured query couldn't be understood
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [autocomplete, setAutocomplete] = useState<AutocompleteSuggestion[]>([]);
+  const [inputFocused, setInputFocused] = useState(false);
   const requestIdRef = useRef(0);
+  const autocompleteRequestIdRef = useRef(0);
 
   useEffect(() => {
-    loadFavorites();
     loadRecentSearches();
   }, []);
 
+  // Add saved toggle button to header
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <SavedOnlyButton
+          savedOnly={filters.savedOnly}
+          onToggle={() => setFilters(prev => ({ ...prev, savedOnly: !prev.savedOnly }))}
+        />
+      ),
+    });
+  }, [navigation, filters.savedOnly]);
+
+  const derivedCategories = useMemo(() => getAvailableCategories(allPrograms), [allPrograms]);
+
+  const visibleResults = useMemo(
+    () => sortPrograms(
+      applyFilters(results, result => result.program, filters, favorites),
+      result => result.program,
+      sortBy
+    ),
+    [results, filters, sortBy, favorites]
+  );
+
   // Reload recent searches when screen comes into focus
   useFocusEffect(
     useCallback(() => {
@@ -58,15 +128,6 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
     }
   };
 
-  const loadFavorites = async () => {
-    try {
-      const favs = await APIService.getFavorites();
-      setFavorites(favs);
-    } catch (err) {
-      console.error('Load favorites error:', err);
-    }
-  };
-
   const performSearch = useCallback(async (query: string, saveToRecent: boolean = true) => {
     if (query.length < 2) return;
 
@@ -74,21 +135,35 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
 
     try {
       setLoading(true);
-      const results = await APIService.searchPrograms(query);
+      const [matches, correction] = await Promise.all([
+        APIService.searchPrograms(query),
+        APIService.getSearchSuggestion(query),
+      ]);
 
       // Only apply if this is still the latest request
       if (requestId === requestIdRef.current) {
-        setPrograms(results);
+        setResults(matches);
+        setSuggestion(correction);
+        setQueryError(null);
         setSearched(true);
 
         // Save to recent searches if we got results
-        if (saveToRecent && results.length > 0) {
+        if (saveToRecent && matches.length > 0) {
           await APIService.addRecentSearch(query);
           loadRecentSearches();
         }
       }
     } catch (err) {
-      console.error('Search error:', err);
+      if (err instanceof QuerySyntaxError) {
+        if (requestId === requestIdRef.current) {
+          setResults([]);
+          setSuggestion(null);
+          setQueryError(err.message);
+          setSearched(true);
+        }
+      } else {
+        console.error('Search error:', err);
+      }
     } finally {
       if (requestId === requestIdRef.current) {
         setLoading(false);
@@ -102,7 +177,9 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
       if (query.length >= 2) {
         performSearch(query);
       } else {
-        setPrograms([]);
+        setResults([]);
+        setSuggestion(null);
+        setQueryError(null);
         setSearched(false);
       }
     }, 500); // Debounce search for 500ms
@@ -110,20 +187,42 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
     return () => clearTimeout(debounceTimer);
   }, [searchQuery, performSearch]);
 
+  // Suggest completions as the user types; structured queries are left alone
+  useEffect(() => {
+    const query = searchQuery.trim();
+    const requestId = ++autocompleteRequestIdRef.current;
+    if (!query || /[:"“”]/.test(query)) {
+      setAutocomplete([]);
+      return;
+    }
+
+    APIService.getAutocompleteSuggestions(query)
+      .then(suggestions => {
+        if (requestId === autocompleteRequestIdRef.current) {
+          setAutocomplete(suggestions);
+        }
+      })
+      .catch(err => console.error('Autocomplete error:', err));
+  }, [searchQuery]);
+
   const handleSearch = useCallback(() => {
     performSearch(searchQuery.trim());
   }, [searchQuery, performSearch]);
 
+  // Re-run the current search when the shared program list is revalidated
+  const searchQueryRef = useRef(searchQuery);
+  searchQueryRef.current = searchQuery;
+  useEffect(() => {
+    const query = searchQueryRef.current.trim();
+    if (query.length >= 2) {
+      performSearch(query, false);
+    }
+  }, [allPrograms, performSearch]);
+
 
   const handleToggleFavorite = async (programId: string) => {
     try {
-      if (favorites.includes(programId)) {
-        await APIService.removeFavorite(programId);
-        setFavorites(favorites.filter(id => id !== programId));
-      } else {
-        await APIService.addFavorite(programId);
-        setFavorites([...favorites, programId]);
-      }
+      await toggleFavorite(programId);
     } catch (err) {
       console.error('Toggle favorite error:', err);
     }
@@ -131,10 +230,101 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
 
   const clearSearch = () => {
     setSearchQuery('');
-    setPrograms([]);
+    setResults([]);
+    setSuggestion(null);
+    setQueryError(null);
     setSearched(false);
   };
 
+  const handleSuggestionPress = (corrected: string) => {
+    setSearchQuery(corrected);
+    performSearch(corrected);
+  };
+
+  const renderQueryError = () => (
+    <View
+      style={styles.queryErrorRow}
+      accessible={true}
+      accessibilityRole="alert"
+      accessibilityLabel={`Search not understood. ${queryError}`}
+    >
+      <Text style={styles.queryErrorTitle}>Search not understood</Text>
+      <Text style={styles.queryErrorText}>{queryError}</Text>
+    </View>
+  );
+
+  const renderSuggestion = () => {
+    if (!suggestion) return null;
+
+    return (
+      <TouchableOpacity
+        style={[styles.suggestionRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
+        onPress={() => handleSuggestionPress(suggestion)}
+        accessibilityRole="button"
+        accessibilityLabel={`Did you mean ${suggestion}?`}
+        accessibilityHint="Double-tap to search for this instead"
+      >
+        <Text style={[styles.suggestionText, { color: colors.textSecondary }]}>
+          Did you mean{' '}
+          <Text style={[styles.suggestionTerm, { color: colors.primary }]}>{suggestion}</Text>?
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const handleAutocompletePress = (suggestion: AutocompleteSuggestion) => {
+    Keyboard.dismiss();
+    setAutocomplete([]);
+
+    if (suggestion.type === 'program') {
+      navigation.navigate('ProgramDetail', { programId: suggestion.programId });
+      return;
+    }
+
+    // Filters are applied with the same qualifiers a user can type
+    const query =
+      suggestion.type === 'category' ? `category:${suggestion.categoryId}` :
+      suggestion.type === 'eligibility' ? `eligibility:${suggestion.eligibilityId}` :
+      suggestion.label;
+    setSearchQuery(query);
+    performSearch(query);
+  };
+
+  const renderAutocomplete = () => {
+    if (!inputFocused || autocomplete.length === 0) return null;
+
+    return (
+      <View
+        style={[styles.autocompleteContainer, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}
+        accessibilityRole="list"
+        accessibilityLabel="Suggestions"
+      >
+        {autocomplete.map((suggestion, index) => {
+          const { kind, hint } = AUTOCOMPLETE_DETAILS[suggestion.type];
+          return (
+            <TouchableOpacity
+              key={`${suggestion.type}-${suggestion.label}`}
+              style={[
+                styles.autocompleteRow,
+                index > 0 && { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: colors.border },
+              ]}
+              onPress={() => handleAutocompletePress(suggestion)}
+              accessibilityRole="button"
+              accessibilityLabel={`${suggestion.label}, ${kind}`}
+              accessibilityHint={hint}
+            >
+              <Text style={styles.autocompleteIcon} accessible={false}>{getAutocompleteIcon(suggestion)}</Text>
+              <Text style={[styles.autocompleteLabel, { color: colors.text }]} numberOfLines={1}>
+                {suggestion.label}
+              </Text>
+              <Text style={[styles.autocompleteKind, { color: colors.textSecondary }]}>{kind}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
   const handleRecentSearchPress = (query: string) => {
     setSearchQuery(query);
     performSearch(query, false); // Don't save again since it's already in recent
@@ -197,8 +387,10 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
             autoCorrect={false}
             returnKeyType="search"
             onSubmitEditing={handleSearch}
+            onFocus={() => setInputFocused(true)}
+            onBlur={() => setInputFocused(false)}
             accessibilityLabel="Search programs"
-            accessibilityHint="Enter at least 2 characters to search"
+            accessibilityHint="Enter at least 2 characters to search. Narrow results with category:, eligibility: or area:"
           />
           {searchQuery.length > 0 && (
             <TouchableOpacity
@@ -213,22 +405,24 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
           )}
         </View>
       </View>
+      {renderAutocomplete()}
 
       {loading ? (
         <LoadingSpinner message="Searching..." />
       ) : searched ? (
         <FlatList
           key={numColumns}
-          data={programs}
+          data={visibleResults}
           numColumns={numColumns}
-          keyExtractor={item => item.id}
+          keyExtractor={item => item.program.id}
           renderItem={({ item }) => (
             <View style={numColumns > 1 ? { flex: 1, maxWidth: `${100 / numColumns}%` } : undefined}>
               <ProgramCard
-                program={item}
-                onPress={() => navigation.navigate('ProgramDetail', { programId: item.id })}
-                isFavorite={favorites.includes(item.id)}
-                onToggleFavorite={() => handleToggleFavorite(item.id)}
+                program={item.program}
+                matches={item.matches}
+                onPress={() => navigation.navigate('ProgramDetail', { programId: item.program.id })}
+                isFavorite={favorites.includes(item.program.id)}
+                onToggleFavorite={() => handleToggleFavorite(item.program.id)}
               />
             </View>
           )}
@@ -239,13 +433,36 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
           columnWrapperStyle={numColumns > 1 ? styles.columnWrapper : undefined}
           refreshing={loading}
           onRefresh={handleSearch}
-          ListEmptyComponent={
+          ListHeaderComponent={
+            <View>
+              {!queryError && (results.length > 0 || hasActiveFilters(filters)) && (
+                <ProgramFilterBar
+                  filters={filters}
+                  onFiltersChange={setFilters}
+                  sortBy={sortBy}
+                  onSortChange={setSortBy}
+                  sortOptions={SORT_OPTIONS.map(option => option.value)}
+                  categories={derivedCategories}
+                  eligibilityTypes={eligibilityTypes}
+                  summary={
+                    hasActiveFilters(filters)
+                      ? `Showing ${visibleResults.length} of ${results.length} results`
+                      : `${results.length} result${results.length !== 1 ? 's' : ''}`
+                  }
+                />
+              )}
+              {queryError ? renderQueryError() : renderSuggestion()}
+            </View>
+          }
+          ListEmptyComponent={queryError ? null : (
             <View style={styles.emptyContainer}>
               <Text style={styles.emptyIcon}>🔍</Text>
               <Text style={[styles.emptyText, { color: colors.text }]}>No programs found</Text>
-              <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>Try different keywords</Text>
+              <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>
+                {results.length > 0 ? 'Try removing some filters' : 'Try different keywords'}
+              </Text>
             </View>
-          }
+          )}
         />
       ) : (
         <View style={styles.emptyStateContainer}>
@@ -307,6 +524,40 @@ const styles = StyleSheet.create({
   emptyStateContainer: {
     flex: 1,
   },
+  suggestionRow: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  suggestionText: {
+    fontSize: 15,
+  },
+  suggestionTerm: {
+    fontWeight: '600',
+  },
+  queryErrorRow: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  queryErrorTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#991b1b',
+    marginBottom: 4,
+  },
+  queryErrorText: {
+    fontSize: 14,
+    color: '#b91c1c',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -328,6 +579,30 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     textAlign: 'center',
   },
+  autocompleteContainer: {
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  autocompleteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    minHeight: 44,
+    paddingVertical: 10,
+  },
+  autocompleteIcon: {
+    fontSize: 18,
+    marginRight: 12,
+  },
+  autocompleteLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  autocompleteKind: {
+    fontSize: 12,
+    marginLeft: 8,
+  },
   // Recent Searches styles
   recentSearchesContainer: {
     backgroundColor: '#ffffff',
@@ -2,7 +2,7 @@
  * Settings Screen
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   ScrollView,
@@ -10,6 +10,7 @@ import {
   StyleSheet,
   TouchableOpacity,
   Alert,
+  AlertButton,
   Linking,
   Switch,
   Image,
@@ -17,9 +18,18 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import * as Haptics from 'expo-haptics';
-import APIService from '../services/api';
+import APIService, { CacheDataset, CacheUsage } from '../services/api';
+import { revalidateAll } from '../services/store';
+import {
+  APIEnvironment,
+  APIEnvironmentId,
+  API_ENVIRONMENTS,
+  DEFAULT_ENVIRONMENT,
+  getEnvironmentLabel,
+} from '../services/environment';
 import appConfig from '../../app.json';
 import { useTheme } from '../context/ThemeContext';
+import { getErrorContent } from '../components/ErrorMessage';
 import {
   loadCrashReportingPreference,
   setCrashReportingEnabled,
@@ -28,6 +38,9 @@ import type { SettingsStackParamList } from '../navigation/AppNavigator';
 
 const version = appConfig.expo.version;
 
+// Taps on the App Version row needed to reveal the developer section
+const DEVELOPER_UNLOCK_TAPS = 7;
+
 // Format bytes into a human-readable string
 const formatBytes = (bytes: number, decimals = 2) => {
   if (bytes === 0) return '0 Bytes';
@@ -38,22 +51,107 @@ const formatBytes = (bytes: number, decimals = 2) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 };
 
+const CACHE_DATASET_LABELS: Record<CacheUsage['dataset'], string> = {
+  programs: 'Program List',
+  categories: 'Categories',
+  eligibility: 'Eligibility Types',
+  areas: 'Service Areas',
+  metadata: 'Database Info',
+  synonyms: 'Search Synonyms',
+  'program-details': 'Program Details',
+  other: 'Favorites & Settings',
+};
+
+// Cache limits offered in Settings; only program details are evicted to stay under them
+const CACHE_BUDGET_OPTIONS = [5, 10, 25, 50].map(megabytes => megabytes * 1024 * 1024);
+
 type NavigationProp = NativeStackNavigationProp<SettingsStackParamList>;
 
 export default function SettingsScreen() {
   const navigation = useNavigation<NavigationProp>();
   const { colors, mode, setMode, isDark } = useTheme();
   const [cacheSize, setCacheSize] = useState<string>('Calculating...');
+  const [cacheUsage, setCacheUsage] = useState<CacheUsage[]>([]);
+  const [cacheBudget, setCacheBudget] = useState<number | null>(null);
+  const [offlineDataIntact, setOfflineDataIntact] = useState<boolean | null>(null);
   const [metadata, setMetadata] = useState<any>(null);
   const [refreshingData, setRefreshingData] = useState<boolean>(false);
   const [crashReportingEnabled, setCrashReporting] = useState<boolean>(true);
+  const [environment, setEnvironment] = useState<APIEnvironment>(DEFAULT_ENVIRONMENT);
+  const [developerUnlocked, setDeveloperUnlocked] = useState<boolean>(false);
+  const versionTapCount = useRef(0);
 
   useEffect(() => {
     loadMetadata();
     calculateCacheSize();
+    loadCacheBudget();
     loadCrashReportingSetting();
+    loadEnvironment();
   }, []);
 
+  const loadEnvironment = async () => {
+    const current = await APIService.getEnvironment();
+    setEnvironment(current);
+  };
+
+  const showDeveloperSection = __DEV__ || developerUnlocked || environment.id !== 'production';
+
+  const handleVersionTap = () => {
+    versionTapCount.current += 1;
+    if (versionTapCount.current === DEVELOPER_UNLOCK_TAPS) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setDeveloperUnlocked(true);
+    }
+  };
+
+  const applyEnvironment = async (next: APIEnvironment) => {
+    try {
+      await APIService.setEnvironment(next);
+      setEnvironment(next);
+      setMetadata(null);
+      revalidateAll();
+      loadMetadata();
+      calculateCacheSize();
+      Alert.alert(
+        'Environment Changed',
+        `Now using ${getEnvironmentLabel(next)}. Cached data has been cleared.`,
+        [{ text: 'OK' }]
+      );
+    } catch (err) {
+      Alert.alert('Error', 'Failed to change API environment');
+    }
+  };
+
+  const promptCustomUrl = () => {
+    Alert.prompt(
+      'Custom API URL',
+      'Base URL of a server using the same JSON layout, e.g. http://192.168.1.10:8080/api',
+      url => {
+        const trimmed = url?.trim();
+        if (!trimmed || !/^https?:\/\//.test(trimmed)) {
+          Alert.alert('Invalid URL', 'Enter a URL starting with http:// or https://');
+          return;
+        }
+        applyEnvironment({ id: 'custom', customUrl: trimmed });
+      },
+      'plain-text',
+      environment.customUrl ?? ''
+    );
+  };
+
+  const handleEnvironmentChange = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const ids = Object.keys(API_ENVIRONMENTS) as APIEnvironmentId[];
+    const buttons: AlertButton[] = [
+      ...ids.map(id => ({
+        text: API_ENVIRONMENTS[id].label,
+        onPress: () => (id === 'custom' ? promptCustomUrl() : applyEnvironment({ id })),
+      })),
+      { text: 'Cancel', style: 'cancel' },
+    ];
+    Alert.alert('API Environment', 'Choose where program data is loaded from', buttons);
+  };
+
   const loadCrashReportingSetting = async () => {
     const enabled = await loadCrashReportingPreference();
     setCrashReporting(enabled);
@@ -109,23 +207,30 @@ export default function SettingsScreen() {
     navigation.navigate('Accessibility');
   };
 
+  const handleNavigateToWhatsNew = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate('WhatsNew');
+  };
+
   const handleRefreshData = async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setRefreshingData(true);
 
     try {
-      const currentMeta = metadata;
-      const freshMeta = await APIService.getMetadata(true); // Force refresh
-
-      const hasDataUpdate = currentMeta && freshMeta &&
-        new Date(freshMeta.generatedAt) > new Date(currentMeta.generatedAt);
+      // Only re-downloads datasets when metadata reports a new version
+      const { updated, metadata: freshMeta } = await APIService.syncData();
+      setMetadata(freshMeta);
+      calculateCacheSize();
+      revalidateAll();
 
-      if (hasDataUpdate) {
-        setMetadata(freshMeta);
+      if (updated) {
         Alert.alert(
           'Database Updated',
           `Program data has been refreshed.\n\nTotal programs: ${freshMeta.totalPrograms}\nLast updated: ${new Date(freshMeta.generatedAt).toLocaleDateString()}`,
-          [{ text: 'OK' }]
+          [
+            { text: 'OK' },
+            { text: "See What's New", onPress: () => navigation.navigate('WhatsNew') },
+          ]
         );
       } else {
         Alert.alert(
@@ -135,11 +240,8 @@ export default function SettingsScreen() {
         );
       }
     } catch (error) {
-      Alert.alert(
-        'Refresh Failed',
-        'Unable to refresh data. Please check your internet connection and try again.',
-        [{ text: 'OK' }]
-      );
+      const { title, message } = getErrorContent(error);
+      Alert.alert(title, message, [{ text: 'OK' }]);
     } finally {
       setRefreshingData(false);
     }
@@ -166,12 +268,50 @@ export default function SettingsScreen() {
 
   const calculateCacheSize = async () => {
     try {
-      const size = await APIService.getCacheSize();
-      setCacheSize(formatBytes(size));
+      const usage = await APIService.getCacheUsage();
+      setCacheUsage(usage);
+      setCacheSize(formatBytes(usage.reduce((total, entry) => total + entry.bytes, 0)));
     } catch (err) {
       console.error('Calculate cache size error:', err);
       setCacheSize('Error');
     }
+    checkOfflineData();
+  };
+
+  const checkOfflineData = async () => {
+    const status = await APIService.verifyOfflineData();
+    // Missing datasets just haven't been downloaded yet; only failures count
+    setOfflineDataIntact(
+      Object.values(status).every(result => result === 'ok' || result === 'missing')
+    );
+  };
+
+  const loadCacheBudget = async () => {
+    setCacheBudget(await APIService.getCacheBudget());
+  };
+
+  const handleCacheBudgetChange = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const buttons: AlertButton[] = [
+      ...CACHE_BUDGET_OPTIONS.map(bytes => ({
+        text: formatBytes(bytes),
+        onPress: async () => {
+          try {
+            await APIService.setCacheBudget(bytes);
+            setCacheBudget(bytes);
+            calculateCacheSize();
+          } catch (err) {
+            Alert.alert('Error', 'Failed to change cache limit');
+          }
+        },
+      })),
+      { text: 'Cancel', style: 'cancel' },
+    ];
+    Alert.alert(
+      'Cache Limit',
+      'Saved program details are removed, least recently viewed first, when the cache grows past this size',
+      buttons
+    );
   };
 
   const handleClearCache = () => {
@@ -187,6 +327,7 @@ export default function SettingsScreen() {
             try {
               await APIService.clearCache();
               setCacheSize('0 Bytes');
+              revalidateAll();
               Alert.alert('Success', 'Cache cleared successfully');
             } catch (err) {
               Alert.alert('Error', 'Failed to clear cache');
@@ -197,6 +338,30 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleClearDataset = (dataset: CacheDataset) => {
+    const label = CACHE_DATASET_LABELS[dataset];
+    Alert.alert(
+      `Clear ${label}`,
+      `This will remove saved ${label.toLowerCase()}. The app will re-download it on next use.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await APIService.clearDataset(dataset);
+              calculateCacheSize();
+              revalidateAll();
+            } catch (err) {
+              Alert.alert('Error', `Failed to clear ${label.toLowerCase()}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleOpenWebsite = async () => {
     const url = 'https://bayareadiscounts.com';
     try {
@@ -319,10 +484,15 @@ export default function SettingsScreen() {
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>About</Text>
           <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
-            <View style={styles.row}>
+            <TouchableOpacity
+              style={styles.row}
+              onPress={handleVersionTap}
+              activeOpacity={1}
+              accessible={false}
+            >
               <Text style={[styles.label, { color: colors.text }]}>App Version</Text>
               <Text style={[styles.value, { color: colors.textSecondary }]}>{version}</Text>
-            </View>
+            </TouchableOpacity>
             {metadata && (
               <>
                 <View style={[styles.divider, { backgroundColor: colors.border }]} />
@@ -361,6 +531,19 @@ export default function SettingsScreen() {
               </View>
               <Text style={[styles.chevron, { color: colors.border }]}>›</Text>
             </TouchableOpacity>
+            <View style={[styles.divider, { backgroundColor: colors.border }]} />
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={handleNavigateToWhatsNew}
+              accessibilityLabel="See what's new in the program database"
+              accessibilityRole="button"
+            >
+              <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                <Text style={styles.buttonIcon}>📰</Text>
+                <Text style={[styles.buttonText, { color: colors.primary }]}>What's New</Text>
+              </View>
+              <Text style={[styles.chevron, { color: colors.border }]}>›</Text>
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -405,6 +588,64 @@ export default function SettingsScreen() {
               <Text style={[styles.value, { color: colors.textSecondary }]}>{cacheSize}</Text>
             </View>
             <View style={[styles.divider, { backgroundColor: colors.border }]} />
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={handleCacheBudgetChange}
+              accessibilityLabel={`Cache limit${cacheBudget !== null ? `, ${formatBytes(cacheBudget)}` : ''}`}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.buttonText, { color: colors.primary }]}>Cache Limit</Text>
+              <Text style={[styles.value, { color: colors.textSecondary }]}>
+                {cacheBudget !== null ? formatBytes(cacheBudget) : ''}
+              </Text>
+            </TouchableOpacity>
+            {cacheUsage.map(({ dataset, bytes, entries }) => {
+              const label = CACHE_DATASET_LABELS[dataset];
+              const detail = dataset === 'program-details'
+                ? `${formatBytes(bytes)} · ${entries} saved`
+                : formatBytes(bytes);
+              return (
+                <React.Fragment key={dataset}>
+                  <View style={[styles.divider, { backgroundColor: colors.border }]} />
+                  {dataset === 'other' ? (
+                    <View style={styles.row}>
+                      <Text style={[styles.datasetLabel, { color: colors.text }]}>{label}</Text>
+                      <Text style={[styles.datasetValue, { color: colors.textSecondary }]}>{detail}</Text>
+                    </View>
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.rowButton}
+                      onPress={() => handleClearDataset(dataset)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`${label}, ${detail}`}
+                      accessibilityHint="Double-tap to clear this saved data"
+                    >
+                      <Text style={[styles.datasetLabel, { color: colors.text }]}>{label}</Text>
+                      <Text style={[styles.datasetValue, { color: colors.textSecondary }]}>{detail}</Text>
+                    </TouchableOpacity>
+                  )}
+                </React.Fragment>
+              );
+            })}
+            {offlineDataIntact !== null && (
+              <>
+                <View style={[styles.divider, { backgroundColor: colors.border }]} />
+                <View style={styles.row}>
+                  <View style={styles.rowTextContainer}>
+                    <Text style={[styles.label, { color: colors.text }]}>Offline Data</Text>
+                    {!offlineDataIntact && (
+                      <Text style={[styles.sublabel, { color: colors.textSecondary }]}>
+                        Saved data couldn't be stored completely. Refresh the database to repair it.
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={[styles.value, { color: offlineDataIntact ? colors.success : colors.danger }]}>
+                    {offlineDataIntact ? 'Intact' : 'Incomplete'}
+                  </Text>
+                </View>
+              </>
+            )}
+            <View style={[styles.divider, { backgroundColor: colors.border }]} />
             <TouchableOpacity
               style={styles.rowButton}
               onPress={handleClearCache}
@@ -414,6 +655,32 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Developer - hidden until unlocked from the App Version row */}
+        {showDeveloperSection && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Developer</Text>
+            <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+              <TouchableOpacity
+                style={styles.rowButton}
+                onPress={handleEnvironmentChange}
+                accessibilityLabel={`API environment: ${getEnvironmentLabel(environment)}`}
+                accessibilityRole="button"
+              >
+                <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                  <Text style={styles.buttonIcon}>🧪</Text>
+                  <Text style={[styles.buttonText, { color: colors.primary }]}>API Environment</Text>
+                </View>
+                <Text
+                  style={[styles.value, styles.environmentValue, { color: colors.textSecondary }]}
+                  numberOfLines={1}
+                >
+                  {getEnvironmentLabel(environment)}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Support Our Work */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Support Our Work</Text>
@@ -644,6 +911,17 @@ const styles = StyleSheet.create({
   value: {
     fontSize: 16,
   },
+  datasetLabel: {
+    fontSize: 15,
+    paddingLeft: 12,
+  },
+  datasetValue: {
+    fontSize: 15,
+  },
+  environmentValue: {
+    flexShrink: 1,
+    marginLeft: 12,
+  },
   buttonText: {
     fontSize: 16,
   },
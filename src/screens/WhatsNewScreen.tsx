@@ -0,0 +1,219 @@
+/**
+ * What's New Screen
+ * Programs added, changed or removed at each database update
+ */
+
+import React, { useCallback, useState } from 'react';
+import { View, SectionList, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ChangeSet, Program, ProgramChange } from '../types';
+import APIService from '../services/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { useTheme } from '../context/ThemeContext';
+import type { SettingsStackParamList } from '../navigation/AppNavigator';
+
+type NavigationProp = NativeStackNavigationProp<SettingsStackParamList>;
+
+const FIELD_LABELS: Record<keyof Program, string> = {
+  id: 'ID',
+  name: 'name',
+  category: 'category',
+  description: 'description',
+  eligibility: 'eligibility',
+  areas: 'service areas',
+  city: 'city',
+  website: 'website',
+  cost: 'cost',
+  phone: 'phone',
+  email: 'email',
+  requirements: 'requirements',
+  howToApply: 'how to apply',
+  lastUpdated: 'last updated',
+};
+
+const CHANGE_STYLES: Record<ProgramChange['type'], { icon: string; label: string; color: string }> = {
+  added: { icon: '🆕', label: 'New', color: '#059669' },
+  changed: { icon: '✏️', label: 'Updated', color: '#2563eb' },
+  removed: { icon: '🗑️', label: 'Removed', color: '#dc2626' },
+};
+
+function describeChange(change: ProgramChange): string {
+  if (change.type === 'changed' && change.fields?.length) {
+    return `Changed ${change.fields.map(field => FIELD_LABELS[field]).join(', ')}`;
+  }
+  return change.type === 'added' ? 'Newly listed' : 'No longer listed';
+}
+
+function summarize(changeSet: ChangeSet): string {
+  const count = (type: ProgramChange['type']) =>
+    changeSet.changes.filter(change => change.type === type).length;
+  return [
+    `${count('added')} new`,
+    `${count('changed')} updated`,
+    `${count('removed')} removed`,
+  ].join(' · ');
+}
+
+export default function WhatsNewScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { colors } = useTheme();
+  const [history, setHistory] = useState<ChangeSet[] | null>(null);
+
+  // Reload on focus so a refresh from Settings shows up straight away
+  useFocusEffect(
+    useCallback(() => {
+      APIService.getChangeHistory().then(setHistory);
+    }, [])
+  );
+
+  if (history === null) {
+    return <LoadingSpinner message="Loading changes..." />;
+  }
+
+  const sections = history.map(changeSet => ({
+    key: `${changeSet.previousVersion}-${changeSet.version}`,
+    changeSet,
+    data: changeSet.changes,
+  }));
+
+  return (
+    <SectionList
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={sections.length === 0 ? styles.emptyContainer : styles.content}
+      sections={sections}
+      keyExtractor={(item, index) => `${item.type}-${item.programId}-${index}`}
+      stickySectionHeadersEnabled={false}
+      renderSectionHeader={({ section }) => (
+        <View style={styles.sectionHeader} accessibilityRole="header">
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {new Date(section.changeSet.syncedAt).toLocaleDateString()}
+          </Text>
+          <Text style={[styles.sectionSummary, { color: colors.textSecondary }]}>
+            {summarize(section.changeSet)}
+          </Text>
+        </View>
+      )}
+      renderItem={({ item }) => {
+        const style = CHANGE_STYLES[item.type];
+        const description = describeChange(item);
+        const content = (
+          <>
+            <Text style={styles.changeIcon} accessible={false}>{style.icon}</Text>
+            <View style={styles.changeText}>
+              <Text style={[styles.changeName, { color: colors.text }]}>{item.name}</Text>
+              <Text style={[styles.changeDescription, { color: colors.textSecondary }]}>
+                {description}
+              </Text>
+            </View>
+            <Text style={[styles.changeBadge, { color: style.color }]}>{style.label}</Text>
+          </>
+        );
+
+        // Removed programs can no longer be opened
+        if (item.type === 'removed') {
+          return (
+            <View
+              style={[styles.changeRow, { backgroundColor: colors.cardBackground }]}
+              accessible={true}
+              accessibilityLabel={`${style.label}: ${item.name}. ${description}`}
+            >
+              {content}
+            </View>
+          );
+        }
+
+        return (
+          <TouchableOpacity
+            style={[styles.changeRow, { backgroundColor: colors.cardBackground }]}
+            onPress={() => navigation.navigate('ProgramDetail', { programId: item.programId })}
+            accessibilityRole="button"
+            accessibilityLabel={`${style.label}: ${item.name}. ${description}`}
+            accessibilityHint="Double-tap to view program details"
+          >
+            {content}
+          </TouchableOpacity>
+        );
+      }}
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Text style={styles.emptyIcon} accessible={false}>📰</Text>
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>No changes yet</Text>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            New, updated and removed programs will appear here after the program database is updated.
+          </Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+  },
+  sectionHeader: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  sectionSummary: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  changeIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  changeText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  changeName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  changeDescription: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  changeBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  empty: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+  },
+});
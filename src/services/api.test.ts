@@ -0,0 +1,155 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { APIService } from './api';
+import { Storage, MemoryStorageBackend } from './storage';
+import fixtures from '../fixtures/programs.json';
+
+const DAY = 24 * 60 * 60 * 1000;
+const [calfresh, museum] = fixtures.programs;
+
+/**
+ * Static API stand-in serving one data version at a time
+ */
+class FakeServer {
+  version = 'v1';
+  programs = [calfresh];
+  requests: string[] = [];
+
+  private body(name: string): unknown {
+    switch (name) {
+      case 'metadata':
+        return { version: this.version, generatedAt: '2025-01-01T00:00:00Z', totalPrograms: this.programs.length };
+      case 'programs':
+        return { programs: this.programs };
+      case 'synonyms':
+        return { groups: [] };
+      default:
+        return { [name]: [] };
+    }
+  }
+
+  fetch = async (input: unknown, init?: RequestInit): Promise<Response> => {
+    const name = String(input).split('/').pop()!.replace('.json', '');
+    this.requests.push(name);
+    const etag = `"${name}-${this.version}"`;
+    if ((init?.headers as Record<string, string> | undefined)?.['If-None-Match'] === etag) {
+      return new Response(null, { status: 304 });
+    }
+    return new Response(JSON.stringify(this.body(name)), { status: 200, headers: { ETag: etag } });
+  };
+}
+
+describe('APIService sync', () => {
+  let server: FakeServer;
+  let storage: Storage;
+  let offline: boolean;
+  let now: number;
+
+  const createService = async () => {
+    const api = new APIService(storage, { isOffline: () => offline });
+    await api.setEnvironment({ id: 'staging' });
+    server.requests = [];
+    return api;
+  };
+
+  // A new session over the same stored data, including the saved environment
+  const reopenService = () => new APIService(storage, { isOffline: () => offline });
+
+  beforeEach(() => {
+    server = new FakeServer();
+    storage = new Storage(new MemoryStorageBackend());
+    offline = false;
+    now = Date.parse('2025-06-01T00:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(global, 'fetch').mockImplementation(server.fetch as typeof fetch);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('records the version of a first download so a sync skips it', async () => {
+    const api = await createService();
+    expect((await api.getPrograms()).map(p => p.id)).toEqual([calfresh.id]);
+
+    server.requests = [];
+    const result = await api.syncData();
+
+    expect(result.updated).toBe(false);
+    expect(server.requests).not.toContain('programs');
+  });
+
+  test('keeps an expired dataset when metadata reports the same version', async () => {
+    const api = await createService();
+    await api.getPrograms();
+
+    now += 2 * DAY;
+    server.requests = [];
+    await api.getPrograms();
+
+    expect(server.requests).toEqual(['metadata']);
+  });
+
+  test('downloads a dataset again when the version moves', async () => {
+    const api = await createService();
+    await api.getPrograms();
+
+    server.version = 'v2';
+    server.programs = [calfresh, museum];
+    const result = await api.syncData();
+
+    expect(result).toMatchObject({ updated: true, previousVersion: 'v1' });
+    expect((await api.getPrograms()).map(p => p.id)).toEqual([calfresh.id, museum.id]);
+  });
+
+  test('records the first update after a download in the change history', async () => {
+    const api = await createService();
+    await api.getPrograms();
+
+    server.version = 'v2';
+    server.programs = [calfresh, museum];
+    now += 2 * DAY;
+    await api.getPrograms();
+
+    const [changeSet] = await api.getChangeHistory();
+    expect(changeSet).toMatchObject({ version: 'v2', previousVersion: 'v1' });
+    expect(changeSet.changes.map(change => change.programId)).toEqual([museum.id]);
+  });
+
+  test('revalidates with the stored ETag and only touches the entry on 304', async () => {
+    const api = await createService();
+    await api.getMetadata();
+    const stored = await storage.getString('metadata');
+
+    now += 2 * DAY;
+    server.requests = [];
+    await api.getMetadata();
+
+    expect(server.requests).toEqual(['metadata']);
+    expect(await storage.getString('metadata')).toBe(stored);
+
+    // A new session sees the restarted expiry clock without any request
+    server.requests = [];
+    await reopenService().getMetadata();
+    expect(server.requests).toEqual([]);
+  });
+
+  test('serves stale data while offline', async () => {
+    const api = await createService();
+    await api.getPrograms();
+
+    now += 2 * DAY;
+    offline = true;
+    server.requests = [];
+
+    expect((await api.getPrograms()).map(p => p.id)).toEqual([calfresh.id]);
+    expect(server.requests).toEqual([]);
+  });
+
+  test('fails with an offline error when nothing is cached', async () => {
+    offline = true;
+    const api = await createService();
+
+    await expect(api.getPrograms()).rejects.toMatchObject({ kind: 'offline' });
+  });
+});
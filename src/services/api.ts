@@ -4,7 +4,6 @@
  * Implements caching and offline support
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   Program,
   ProgramsResponse,
@@ -12,26 +11,195 @@ import {
   EligibilityResponse,
   AreasResponse,
   APIMetadata,
+  FavoriteProgram,
+  Eligibility,
+  ChangeSet,
+  SynonymsResponse,
 } from '../types';
+import { Storage, CorruptEntryError, appStorage } from './storage';
+import {
+  APIEnvironment,
+  loadEnvironment,
+  saveEnvironment,
+  getBaseUrl,
+  getFixtureResponse,
+} from './environment';
+import {
+  Validator,
+  ValidationIssue,
+  validateProgram,
+  validateProgramsResponse,
+  validateCategoriesResponse,
+  validateEligibilityResponse,
+  validateAreasResponse,
+  validateMetadata,
+  validateSynonymsResponse,
+} from './validation';
+import { APIError, httpError, toAPIError } from './errors';
+import { ConnectivityService, connectivity as defaultConnectivity } from './connectivity';
+import { CacheManager } from './cacheManager';
+import { diffPrograms } from './changeFeed';
+import { SearchIndex, SearchResult, containsPhrase } from './searchIndex';
+import { SynonymMap } from './synonyms';
+import { foldText } from './textNormalizer';
+import { FILTER_PREDICATES } from './programFilter';
+import { AutocompleteIndex, AutocompleteSuggestion } from './autocomplete';
+import { ParsedQuery, QueryField, QueryTerm, isPlainQuery, parseQuery } from './queryParser';
+import seedPrograms from '../../assets/data/programs.json';
+import seedCategories from '../../assets/data/categories.json';
+import seedEligibility from '../../assets/data/eligibility.json';
+import seedAreas from '../../assets/data/areas.json';
+import seedMetadata from '../../assets/data/metadata.json';
+import seedSynonyms from '../../assets/data/synonyms.json';
 
-const API_BASE_URL = 'https://bayareadiscounts.com/api';
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+// Keys within the app storage namespace
 const CACHE_KEYS = {
-  PROGRAMS: '@bay_area_discounts:programs',
-  CATEGORIES: '@bay_area_discounts:categories',
-  ELIGIBILITY: '@bay_area_discounts:eligibility',
-  AREAS: '@bay_area_discounts:areas',
-  METADATA: '@bay_area_discounts:metadata',
-  FAVORITES: '@bay_area_discounts:favorites',
-  RECENT_SEARCHES: '@bay_area_discounts:recent_searches',
-  FILTER_PRESETS: '@bay_area_discounts:filter_presets',
+  PROGRAMS: 'programs',
+  CATEGORIES: 'categories',
+  ELIGIBILITY: 'eligibility',
+  AREAS: 'areas',
+  METADATA: 'metadata',
+  FAVORITES: 'favorites',
+  RECENT_SEARCHES: 'recent_searches',
+  FILTER_PRESETS: 'filter_presets',
+  SYNC_STATE: 'sync_state',
+  LAST_SYNCED: 'last_synced',
+  QUARANTINE: 'quarantine',
+  CHANGE_HISTORY: 'change_history',
+  SYNONYMS: 'synonyms',
+  CACHE_TOUCHED: 'cache_touched',
+};
+
+// User data that clearing the cache must keep
+const PRESERVED_KEYS = [CACHE_KEYS.FAVORITES, CACHE_KEYS.CHANGE_HISTORY];
+
+// Change history label for programs downloaded before their version was known
+const UNKNOWN_VERSION = 'unknown';
+
+// Payload validators, keyed by the cache key the payload is stored under
+const VALIDATORS: Record<string, Validator<unknown>> = {
+  [CACHE_KEYS.PROGRAMS]: validateProgramsResponse,
+  [CACHE_KEYS.CATEGORIES]: validateCategoriesResponse,
+  [CACHE_KEYS.ELIGIBILITY]: validateEligibilityResponse,
+  [CACHE_KEYS.AREAS]: validateAreasResponse,
+  [CACHE_KEYS.METADATA]: validateMetadata,
+  [CACHE_KEYS.SYNONYMS]: validateSynonymsResponse,
+};
+
+// Bundled snapshot of the production API used when nothing has been cached
+// yet (e.g. first launch offline). Refresh with `npm run seed:update`; an
+// empty snapshot is left out so offline mode reports missing data instead
+// of an empty program list.
+const SEED_DATA: Record<string, unknown> = {
+  [CACHE_KEYS.SYNONYMS]: seedSynonyms,
+  ...(seedPrograms.programs.length > 0 && {
+    [CACHE_KEYS.PROGRAMS]: seedPrograms,
+    [CACHE_KEYS.CATEGORIES]: seedCategories,
+    [CACHE_KEYS.ELIGIBILITY]: seedEligibility,
+    [CACHE_KEYS.AREAS]: seedAreas,
+    [CACHE_KEYS.METADATA]: seedMetadata,
+  }),
 };
 
+// Seed entries are dated to when the snapshot was generated, so they are
+// always expired
+const SEED_TIMESTAMP = new Date(seedMetadata.generatedAt).getTime();
+
+// Per-program detail caches are stored as `program:<id>`
+const PROGRAM_CACHE_PREFIX = 'program:';
+
+const MAX_QUARANTINED_ISSUES = 100;
+
+// Groups of cache entries that can be measured and cleared individually
+export type CacheDataset =
+  | 'programs'
+  | 'categories'
+  | 'eligibility'
+  | 'areas'
+  | 'metadata'
+  | 'synonyms'
+  | 'program-details';
+
+const CACHE_DATASETS: Record<CacheDataset, (key: string) => boolean> = {
+  programs: key => key === CACHE_KEYS.PROGRAMS,
+  categories: key => key === CACHE_KEYS.CATEGORIES,
+  eligibility: key => key === CACHE_KEYS.ELIGIBILITY,
+  areas: key => key === CACHE_KEYS.AREAS,
+  metadata: key => key === CACHE_KEYS.METADATA,
+  synonyms: key => key === CACHE_KEYS.SYNONYMS,
+  'program-details': key => key.startsWith(PROGRAM_CACHE_PREFIX),
+};
+
+function getValidator(cacheKey: string): Validator<unknown> | undefined {
+  if (cacheKey.startsWith(PROGRAM_CACHE_PREFIX)) {
+    return validateProgram;
+  }
+  return VALIDATORS[cacheKey];
+}
+
 interface CachedData<T> {
   data: T;
   timestamp: number;
+  etag?: string;
+  lastModified?: string;
+  // Served from the bundled seed rather than storage
+  fromSeed?: boolean;
+}
+
+// HTTP validators used to revalidate a cache entry with a conditional request
+type CacheValidators = Pick<CachedData<unknown>, 'etag' | 'lastModified'>;
+
+// Metadata version each dataset cache was downloaded at, keyed by cache key
+type SyncState = Record<string, string>;
+
+// When each cache entry was last confirmed unchanged, kept apart from the
+// payloads so restarting an expiry clock doesn't rewrite the data
+type TouchedTimes = Record<string, number>;
+
+// Records dropped or repaired during the last download of each dataset
+export type QuarantineReport = Record<string, {
+  checkedAt: string;
+  issues: ValidationIssue[];
+}>;
+
+// Stored size of a cache dataset; 'other' covers favorites and preferences
+export interface CacheUsage {
+  dataset: CacheDataset | 'other';
+  bytes: number;
+  entries: number;
+}
+
+// Health of the persisted copy of each dataset used for offline mode
+export type OfflineDataStatus = Record<string, 'ok' | 'missing' | 'corrupt' | 'write-failed'>;
+
+export interface ProgramDetails {
+  program: Program;
+  // When the shown data was last fetched from the network
+  fetchedAt: number;
+  // True when the network couldn't be reached and an expired copy is shown
+  isStale: boolean;
 }
 
+export interface SyncResult {
+  updated: boolean;
+  previousVersion: string | null;
+  metadata: APIMetadata;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  timeoutMs: 12000,
+};
 
 async function fetchWithTimeout(input: RequestInfo, init?: RequestInit, timeoutMs = 12000) {
   const controller = new AbortController();
@@ -44,94 +212,537 @@ async function fetchWithTimeout(input: RequestInfo, init?: RequestInit, timeoutM
   }
 }
 
-class APIService {
+// Exponential backoff with full jitter so retrying clients don't line up
+function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.random() * ceiling;
+}
+
+/**
+ * Fetch with retries on timeouts, network errors and 5xx responses.
+ * Any other response (including 404) is returned to the caller as-is.
+ */
+async function fetchWithRetry(
+  input: RequestInfo,
+  init: RequestInit | undefined,
+  policy: RetryPolicy
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetchWithTimeout(input, init, policy.timeoutMs);
+      if (response.status < 500 || attempt >= policy.maxAttempts) {
+        return response;
+      }
+    } catch (error) {
+      // fetch only rejects on abort (timeout) or network failure
+      if (attempt >= policy.maxAttempts) {
+        throw error;
+      }
+    }
+
+    await new Promise(resolve => setTimeout(resolve, getBackoffDelay(attempt, policy)));
+  }
+}
+
+export class APIService {
+  constructor(
+    private readonly storage: Storage = appStorage,
+    private readonly connectivity: Pick<ConnectivityService, 'isOffline'> = defaultConnectivity
+  ) {
+    this.cacheManager = new CacheManager(storage, CACHE_DATASETS['program-details']);
+  }
+
+  // Parsed cache entries, so repeated reads within a session skip storage
+  private memoryCache = new Map<string, CachedData<unknown>>();
+  // Requests in flight, shared between concurrent callers
+  private pendingRequests = new Map<string, Promise<unknown>>();
+  private pendingWrites: Promise<void> = Promise.resolve();
+  // Cache keys whose last write to storage failed
+  private failedWrites = new Set<string>();
+  // Cache keys whose stored entry couldn't be read back intact
+  private corruptEntries = new Set<string>();
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private environment: Promise<APIEnvironment> | null = null;
+  // Only per-program details are evicted; datasets are needed for offline mode
+  private readonly cacheManager: CacheManager;
+  // Search index over the program list and synonyms it was built from
+  private searchIndex: { programs: Program[]; synonyms: SynonymsResponse; index: SearchIndex } | null = null;
+  // Autocomplete index and the datasets it was built from
+  private autocompleteIndex: { sources: unknown[]; index: AutocompleteIndex } | null = null;
+
+  /**
+   * Override the retry policy used for every API request
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  /**
+   * Share a single pending promise between concurrent callers of the same request
+   */
+  private coalesce<T>(key: string, request: () => Promise<T>): Promise<T> {
+    const pending = this.pendingRequests.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = request().finally(() => {
+      this.pendingRequests.delete(key);
+    });
+    this.pendingRequests.set(key, promise);
+    return promise;
+  }
+
   /**
    * Generic fetch with caching
    */
   private async fetchWithCache<T>(
     endpoint: string,
     cacheKey: string,
-    forceRefresh: boolean = false
+    forceRefresh: boolean = false,
+    fallbackToStale: boolean = true
   ): Promise<T> {
     try {
+      const cached = await this.readCacheEntry<T>(cacheKey);
+
       // Check cache first
-      if (!forceRefresh) {
-        const cached = await this.getFromCache<T>(cacheKey);
-        if (cached) {
-          return cached;
-        }
+      if (!forceRefresh && cached && Date.now() - cached.timestamp <= CACHE_DURATION) {
+        return cached.data;
       }
 
-      // Fetch from network
-      const response = await fetchWithTimeout(`${API_BASE_URL}${endpoint}`);
+      // Fetch from network, revalidating whatever we already have
+      const response = await this.request(endpoint, {
+        headers: this.getConditionalHeaders(cached),
+      });
+
+      if (response.status === 304 && cached) {
+        // Not modified - keep the cached payload and restart the expiry clock
+        await this.touchCache(cacheKey);
+        await this.markSynced();
+        return cached.data;
+      }
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw httpError(response);
       }
 
-      const data: T = await response.json();
+      // Throws before caching if the payload is unusable, so a bad
+      // upstream deploy never replaces good cached data
+      const data = await this.validatePayload<T>(cacheKey, await response.json());
 
-      // Cache the response
-      await this.saveToCache(cacheKey, data);
+      // Cache the response along with its validators
+      await this.saveToCache(cacheKey, data, {
+        etag: response.headers.get('ETag') ?? undefined,
+        lastModified: response.headers.get('Last-Modified') ?? undefined,
+      });
+      await this.markSynced();
 
       return data;
     } catch (error) {
       // If network fails, try to return stale cache
-      const cached = await this.getFromCache<T>(cacheKey, true);
+      const cached = fallbackToStale ? await this.getFromCache<T>(cacheKey, true) : null;
       if (cached) {
         console.warn('Using stale cache due to network error:', error);
         return cached;
       }
 
-      throw error;
+      throw toAPIError(error);
     }
   }
 
   /**
-   * Get data from cache
+   * Fetch a versioned dataset, skipping the download when the cache has
+   * expired but metadata.json reports the same version it was fetched at
    */
-  private async getFromCache<T>(
-    key: string,
-    allowStale: boolean = false
-  ): Promise<T | null> {
-    try {
-      const item = await AsyncStorage.getItem(key);
-      if (!item) return null;
+  private fetchDataset<T>(
+    endpoint: string,
+    cacheKey: string,
+    forceRefresh: boolean = false
+  ): Promise<T> {
+    return this.coalesce(`${cacheKey}:${forceRefresh ? 'refresh' : 'read'}`, () =>
+      this.resolveDataset<T>(endpoint, cacheKey, forceRefresh)
+    );
+  }
+
+  private async resolveDataset<T>(
+    endpoint: string,
+    cacheKey: string,
+    forceRefresh: boolean
+  ): Promise<T> {
+    if (forceRefresh) {
+      try {
+        // Look up the version too, so the sync state and change feed stay accurate
+        const metadata = await this.getRemoteMetadata();
+        return await this.downloadVersion<T>(endpoint, cacheKey, metadata.version);
+      } catch (error) {
+        const stale = await this.getFromCache<T>(cacheKey, true);
+        if (stale) {
+          console.warn('Using stale cache due to network error:', error);
+          return stale;
+        }
+        throw toAPIError(error);
+      }
+    }
 
-      const cached: CachedData<T> = JSON.parse(item);
-      const age = Date.now() - cached.timestamp;
+    const cached = await this.readCacheEntry<T>(cacheKey);
+    if (!cached) {
+      return this.downloadFirstVersion<T>(endpoint, cacheKey);
+    }
 
-      if (!allowStale && age > CACHE_DURATION) {
-        return null;
+    if (Date.now() - cached.timestamp <= CACHE_DURATION) {
+      return cached.data;
+    }
+
+    try {
+      const metadata = await this.getRemoteMetadata();
+      const syncState = await this.getSyncState();
+
+      if (this.isDatasetCurrent(cached, syncState[cacheKey], metadata)) {
+        // Nothing changed upstream - just restart the expiry clock
+        await this.touchCache(cacheKey);
+        await this.recordDatasetVersions([cacheKey], metadata.version);
+        return cached.data;
       }
 
+      return await this.downloadVersion<T>(endpoint, cacheKey, metadata.version);
+    } catch (error) {
+      console.warn('Using stale cache due to network error:', error);
       return cached.data;
+    }
+  }
+
+  /**
+   * Download a dataset that was never cached, recording the version it's at
+   * so the next sync doesn't fetch it again. Without metadata the dataset
+   * is still downloaded and its version recorded by a later sync.
+   */
+  private async downloadFirstVersion<T>(endpoint: string, cacheKey: string): Promise<T> {
+    let metadata: APIMetadata;
+    try {
+      metadata = await this.getRemoteMetadata();
+    } catch (error) {
+      console.warn('Downloading without a version, metadata unavailable:', error);
+      return this.fetchWithCache<T>(endpoint, cacheKey);
+    }
+    return this.downloadVersion<T>(endpoint, cacheKey, metadata.version);
+  }
+
+  /**
+   * Download a dataset at a known metadata version and record that version.
+   * Programs are compared with the previous version for the change feed.
+   */
+  private async downloadVersion<T>(endpoint: string, cacheKey: string, version: string): Promise<T> {
+    const previous = cacheKey === CACHE_KEYS.PROGRAMS ? await this.getSyncedPrograms() : null;
+
+    // No stale fallback - a version must only be recorded for fresh data
+    const data = await this.fetchWithCache<T>(endpoint, cacheKey, true, false);
+    await this.recordDatasetVersions([cacheKey], version);
+
+    if (cacheKey === CACHE_KEYS.PROGRAMS) {
+      await this.updateFavoriteSnapshots((data as ProgramsResponse).programs);
+    }
+    if (previous && previous.version !== version) {
+      await this.recordChanges({
+        version,
+        previousVersion: previous.version ?? UNKNOWN_VERSION,
+        syncedAt: new Date().toISOString(),
+        changes: diffPrograms(previous.programs, (data as ProgramsResponse).programs),
+      });
+    }
+    return data;
+  }
+
+  /**
+   * The stored programs with the version they were downloaded at. The version
+   * is missing when the download happened without metadata; the seed is never
+   * returned since its contents don't come from any sync.
+   */
+  private async getSyncedPrograms(): Promise<{ version?: string; programs: Program[] } | null> {
+    const cached = await this.readCacheEntry<ProgramsResponse>(CACHE_KEYS.PROGRAMS);
+    if (!cached || cached.fromSeed) return null;
+
+    const syncState = await this.getSyncState();
+    return { version: syncState[CACHE_KEYS.PROGRAMS], programs: cached.data.programs };
+  }
+
+  /**
+   * A cached dataset is current if it was downloaded at the remote version,
+   * or - when its version was never recorded - after the remote data was generated.
+   * The seed is never current, so a reachable server always replaces it.
+   */
+  private isDatasetCurrent<T>(
+    cached: CachedData<T>,
+    syncedVersion: string | undefined,
+    metadata: APIMetadata
+  ): boolean {
+    if (cached.fromSeed) {
+      return false;
+    }
+    if (syncedVersion) {
+      return syncedVersion === metadata.version;
+    }
+    const generatedAt = new Date(metadata.generatedAt).getTime();
+    return !isNaN(generatedAt) && generatedAt <= cached.timestamp;
+  }
+
+  /**
+   * Fetch metadata from the network, sharing one request between callers.
+   * Never falls back to cached metadata, since callers compare it against
+   * what they already have.
+   */
+  private getRemoteMetadata(): Promise<APIMetadata> {
+    return this.coalesce(`${CACHE_KEYS.METADATA}:remote`, () =>
+      this.fetchWithCache<APIMetadata>('/metadata.json', CACHE_KEYS.METADATA, true, false)
+    );
+  }
+
+  /**
+   * Send a request to the selected API environment
+   */
+  private async request(endpoint: string, init?: RequestInit): Promise<Response> {
+    const environment = await this.getEnvironment();
+    if (environment.id === 'fixtures') {
+      return getFixtureResponse(endpoint);
+    }
+
+    // Fail fast instead of waiting out timeouts and retries
+    if (this.connectivity.isOffline()) {
+      throw new APIError('offline', 'No network connection');
+    }
+
+    const baseUrl = getBaseUrl(environment);
+    if (!baseUrl) {
+      throw new APIError('unknown', 'No API URL configured for this environment');
+    }
+    return fetchWithRetry(`${baseUrl}${endpoint}`, init, this.retryPolicy);
+  }
+
+  /**
+   * Validate a downloaded payload and record any quarantined records
+   */
+  private async validatePayload<T>(cacheKey: string, raw: unknown): Promise<T> {
+    const validator = getValidator(cacheKey);
+    if (!validator) {
+      return raw as T;
+    }
+
+    const { data, issues } = validator(raw);
+    if (issues.length > 0) {
+      console.warn(`Quarantined ${issues.length} issue(s) in ${cacheKey}`);
+    }
+    await this.recordQuarantine(cacheKey, issues);
+    return data as T;
+  }
+
+  /**
+   * Build If-None-Match / If-Modified-Since headers from a cache entry
+   */
+  private getConditionalHeaders(cached: CacheValidators | null): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Read a raw cache entry including its timestamp
+   */
+  private async readCacheEntry<T>(key: string): Promise<CachedData<T> | null> {
+    const inMemory = this.memoryCache.get(key);
+    if (inMemory) {
+      this.cacheManager.recordAccess(key);
+      return inMemory as CachedData<T>;
+    }
+
+    try {
+      const stored = await this.readStoredEntry<T>(key);
+      const cached = stored ?? (await this.getSeedEntry<T>(key));
+      if (!cached) return null;
+
+      // Entries written before validation existed may hold malformed records
+      const validator = getValidator(key);
+      if (validator) {
+        cached.data = validator(cached.data).data as T;
+      }
+
+      this.memoryCache.set(key, cached);
+      if (stored) {
+        this.cacheManager.recordAccess(key);
+      }
+      return cached;
     } catch (error) {
       console.error('Cache read error:', error);
       return null;
     }
   }
 
+  /**
+   * Read a cache entry from storage. A corrupt entry is recorded and read as
+   * missing, so callers fall back to the seed instead of failing offline.
+   */
+  private async readStoredEntry<T>(key: string): Promise<CachedData<T> | null> {
+    try {
+      const stored = await this.storage.get<CachedData<T>>(key);
+      if (!stored) return null;
+
+      const touchedAt = (await this.getTouchedTimes())[key];
+      if (touchedAt > stored.timestamp) {
+        stored.timestamp = touchedAt;
+      }
+      return stored;
+    } catch (error) {
+      if (!(error instanceof CorruptEntryError)) {
+        throw error;
+      }
+      console.error('Corrupt cache entry:', key, error);
+      this.corruptEntries.add(key);
+      return null;
+    }
+  }
+
+  /**
+   * Lowest-priority cache entry from the bundled seed dataset. The seed is a
+   * production snapshot, so other environments never fall back to it.
+   */
+  private async getSeedEntry<T>(key: string): Promise<CachedData<T> | null> {
+    const seed = SEED_DATA[key];
+    if (!seed) return null;
+
+    const environment = await this.getEnvironment();
+    if (environment.id !== 'production') return null;
+    return { data: seed as T, timestamp: SEED_TIMESTAMP, fromSeed: true };
+  }
+
+  /**
+   * Whether bundled program data can be shown before the first download
+   */
+  async hasSeedPrograms(): Promise<boolean> {
+    const seed = await this.getSeedEntry<ProgramsResponse>(CACHE_KEYS.PROGRAMS);
+    return seed !== null;
+  }
+
+  /**
+   * Get data from cache
+   */
+  private async getFromCache<T>(
+    key: string,
+    allowStale: boolean = false
+  ): Promise<T | null> {
+    const cached = await this.readCacheEntry<T>(key);
+    if (!cached) return null;
+
+    const age = Date.now() - cached.timestamp;
+
+    if (!allowStale && age > CACHE_DURATION) {
+      return null;
+    }
+
+    return cached.data;
+  }
+
   /**
    * Save data to cache
    */
-  private async saveToCache<T>(key: string, data: T): Promise<void> {
+  private async saveToCache<T>(
+    key: string,
+    data: T,
+    validators: CacheValidators = {}
+  ): Promise<void> {
     try {
       const cached: CachedData<T> = {
         data,
         timestamp: Date.now(),
+        etag: validators.etag,
+        lastModified: validators.lastModified,
       };
-      await AsyncStorage.setItem(key, JSON.stringify(cached));
+      this.memoryCache.set(key, cached);
+      const value = JSON.stringify(cached);
+      await this.storage.setString(key, value);
+      this.failedWrites.delete(key);
+      this.corruptEntries.delete(key);
+      await this.cacheManager.recordWrite(key, value.length);
+      await this.evictOverBudget(key);
+    } catch (error) {
+      // The in-memory copy still serves this session, but offline mode
+      // would silently break - remember the failure so it can be surfaced
+      this.failedWrites.add(key);
+      console.error('Cache write error:', key, error);
+    }
+  }
+
+  /**
+   * Restart a cache entry's expiry clock without rewriting its payload
+   */
+  private async touchCache(key: string): Promise<void> {
+    const timestamp = Date.now();
+    const cached = this.memoryCache.get(key);
+    if (cached) {
+      this.memoryCache.set(key, { ...cached, timestamp });
+    }
+
+    await this.queueWrite(async () => {
+      try {
+        const touched = await this.getTouchedTimes();
+        touched[key] = timestamp;
+        await this.storage.set(CACHE_KEYS.CACHE_TOUCHED, touched);
+      } catch (error) {
+        console.error('Cache touch error:', key, error);
+      }
+    });
+  }
+
+  private async getTouchedTimes(): Promise<TouchedTimes> {
+    try {
+      const touched = await this.storage.get<TouchedTimes>(CACHE_KEYS.CACHE_TOUCHED);
+      return touched ?? {};
     } catch (error) {
-      console.error('Cache write error:', error);
+      console.error('Error reading cache touch times:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Check that every dataset can be read back intact from storage
+   */
+  async verifyOfflineData(): Promise<OfflineDataStatus> {
+    const keys = [
+      CACHE_KEYS.PROGRAMS,
+      CACHE_KEYS.CATEGORIES,
+      CACHE_KEYS.ELIGIBILITY,
+      CACHE_KEYS.AREAS,
+      CACHE_KEYS.METADATA,
+    ];
+    const status: OfflineDataStatus = {};
+
+    for (const key of keys) {
+      if (this.failedWrites.has(key)) {
+        status[key] = 'write-failed';
+        continue;
+      }
+      if (this.corruptEntries.has(key)) {
+        status[key] = 'corrupt';
+        continue;
+      }
+      try {
+        const stored = await this.storage.get<CachedData<unknown>>(key);
+        status[key] = stored ? 'ok' : 'missing';
+      } catch (error) {
+        console.error('Cache verification error:', key, error);
+        status[key] = 'corrupt';
+      }
     }
+    return status;
   }
 
   /**
    * Fetch all programs
    */
   async getPrograms(forceRefresh: boolean = false): Promise<Program[]> {
-    const response = await this.fetchWithCache<ProgramsResponse>(
+    const response = await this.fetchDataset<ProgramsResponse>(
       '/programs.json',
       CACHE_KEYS.PROGRAMS,
       forceRefresh
@@ -139,24 +750,81 @@ class APIService {
     return response.programs;
   }
 
+  /**
+   * Get whatever programs are cached, however old, without touching the network
+   */
+  async getCachedPrograms(): Promise<Program[] | null> {
+    const cached = await this.getFromCache<ProgramsResponse>(CACHE_KEYS.PROGRAMS, true);
+    return cached?.programs ?? null;
+  }
+
   /**
    * Fetch single program by ID
    */
   async getProgram(id: string): Promise<Program> {
-    const response = await fetchWithTimeout(`${API_BASE_URL}/programs/${id}.json`);
+    const { program } = await this.getProgramDetails(id);
+    return program;
+  }
+
+  /**
+   * Fetch single program by ID, resolving from cached data first and only
+   * hitting the per-program endpoint once that copy has expired
+   */
+  async getProgramDetails(id: string, forceRefresh: boolean = false): Promise<ProgramDetails> {
+    const cacheKey = `${PROGRAM_CACHE_PREFIX}${id}`;
+    const cached = await this.getCachedProgram(id);
+
+    if (!forceRefresh && cached && Date.now() - cached.timestamp <= CACHE_DURATION) {
+      return { program: cached.data, fetchedAt: cached.timestamp, isStale: false };
+    }
 
-    if (!response.ok) {
-      throw new Error(`Program not found: ${id}`);
+    try {
+      // No stale fallback here - the cached copy is resolved above and
+      // a removed program shouldn't silently show as an offline copy
+      const program = await this.fetchWithCache<Program>(`/programs/${id}.json`, cacheKey, true, false);
+      return { program, fetchedAt: Date.now(), isStale: false };
+    } catch (error) {
+      const apiError = toAPIError(error);
+      if (cached && apiError.kind !== 'not-found') {
+        console.warn('Using cached program due to network error:', error);
+        return { program: cached.data, fetchedAt: cached.timestamp, isStale: true };
+      }
+      throw apiError;
     }
+  }
 
-    return response.json();
+  /**
+   * Get the newest saved copy of a program without touching the network,
+   * e.g. to show after the program was removed upstream
+   */
+  async getSavedProgram(id: string): Promise<ProgramDetails | null> {
+    const cached = await this.getCachedProgram(id);
+    if (!cached) return null;
+    return { program: cached.data, fetchedAt: cached.timestamp, isStale: true };
+  }
+
+  /**
+   * Find the newest cached copy of a program, from either its own cache
+   * entry or the cached program list
+   */
+  private async getCachedProgram(id: string): Promise<CachedData<Program> | null> {
+    const [detail, list] = await Promise.all([
+      this.readCacheEntry<Program>(`${PROGRAM_CACHE_PREFIX}${id}`),
+      this.readCacheEntry<ProgramsResponse>(CACHE_KEYS.PROGRAMS),
+    ]);
+
+    const fromList = list?.data.programs.find(p => p.id === id);
+    if (list && fromList && (!detail || list.timestamp > detail.timestamp)) {
+      return { data: fromList, timestamp: list.timestamp };
+    }
+    return detail;
   }
 
   /**
    * Fetch all categories
    */
   async getCategories(forceRefresh: boolean = false) {
-    const response = await this.fetchWithCache<CategoriesResponse>(
+    const response = await this.fetchDataset<CategoriesResponse>(
       '/categories.json',
       CACHE_KEYS.CATEGORIES,
       forceRefresh
@@ -168,7 +836,7 @@ class APIService {
    * Fetch all eligibility types
    */
   async getEligibility(forceRefresh: boolean = false) {
-    const response = await this.fetchWithCache<EligibilityResponse>(
+    const response = await this.fetchDataset<EligibilityResponse>(
       '/eligibility.json',
       CACHE_KEYS.ELIGIBILITY,
       forceRefresh
@@ -176,11 +844,19 @@ class APIService {
     return response.eligibility;
   }
 
+  /**
+   * Get whatever eligibility types are cached, without touching the network
+   */
+  async getCachedEligibility(): Promise<Eligibility[] | null> {
+    const cached = await this.getFromCache<EligibilityResponse>(CACHE_KEYS.ELIGIBILITY, true);
+    return cached?.eligibility ?? null;
+  }
+
   /**
    * Fetch all service areas
    */
   async getAreas(forceRefresh: boolean = false) {
-    const response = await this.fetchWithCache<AreasResponse>(
+    const response = await this.fetchDataset<AreasResponse>(
       '/areas.json',
       CACHE_KEYS.AREAS,
       forceRefresh
@@ -192,24 +868,438 @@ class APIService {
    * Fetch API metadata
    */
   async getMetadata(forceRefresh: boolean = false): Promise<APIMetadata> {
-    return this.fetchWithCache<APIMetadata>(
-      '/metadata.json',
-      CACHE_KEYS.METADATA,
-      forceRefresh
+    return this.coalesce(`${CACHE_KEYS.METADATA}:${forceRefresh ? 'refresh' : 'read'}`, () =>
+      this.fetchWithCache<APIMetadata>('/metadata.json', CACHE_KEYS.METADATA, forceRefresh)
     );
   }
 
+  // ============================================
+  // SYNC
+  // ============================================
+
+  /**
+   * Check metadata.json for a new data version and re-download every
+   * dataset if it moved (or unconditionally when forced)
+   */
+  async syncData(force: boolean = false): Promise<SyncResult> {
+    const previous = await this.getFromCache<APIMetadata>(CACHE_KEYS.METADATA, true);
+    const metadata = await this.getRemoteMetadata();
+    const syncState = await this.getSyncState();
+
+    const datasets: [string, string][] = [
+      ['/programs.json', CACHE_KEYS.PROGRAMS],
+      ['/categories.json', CACHE_KEYS.CATEGORIES],
+      ['/eligibility.json', CACHE_KEYS.ELIGIBILITY],
+      ['/areas.json', CACHE_KEYS.AREAS],
+    ];
+    // Datasets whose stored copy is damaged are re-downloaded even when current
+    const offlineStatus = await this.verifyOfflineData();
+    const outdated = force
+      ? datasets
+      : datasets.filter(([, cacheKey]) =>
+          syncState[cacheKey] !== metadata.version || offlineStatus[cacheKey] !== 'ok'
+        );
+
+    await Promise.all([
+      ...outdated.map(([endpoint, cacheKey]) => this.downloadVersion(endpoint, cacheKey, metadata.version)),
+      this.refreshSynonyms(),
+    ]);
+
+    return {
+      updated: !!previous && previous.version !== metadata.version,
+      previousVersion: previous?.version ?? null,
+      metadata,
+    };
+  }
+
+  /**
+   * Get the metadata version each dataset was last downloaded at
+   */
+  private async getSyncState(): Promise<SyncState> {
+    try {
+      const state = await this.storage.get<SyncState>(CACHE_KEYS.SYNC_STATE);
+      return state ?? {};
+    } catch (error) {
+      console.error('Error reading sync state:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Record the metadata version datasets were downloaded at.
+   * Writes are queued so parallel dataset fetches don't overwrite each other.
+   */
+  private recordDatasetVersions(cacheKeys: string[], version: string): Promise<void> {
+    return this.queueWrite(async () => {
+      try {
+        const state = await this.getSyncState();
+        if (cacheKeys.every(key => state[key] === version)) return;
+        cacheKeys.forEach(key => {
+          state[key] = version;
+        });
+        await this.storage.set(CACHE_KEYS.SYNC_STATE, state);
+      } catch (error) {
+        console.error('Error saving sync state:', error);
+      }
+    });
+  }
+
+  /**
+   * Get when data was last confirmed with the server, or null if this
+   * device has only ever had the bundled seed data
+   */
+  async getLastSyncedAt(): Promise<number | null> {
+    try {
+      const lastSynced = await this.storage.get<number>(CACHE_KEYS.LAST_SYNCED);
+      return typeof lastSynced === 'number' ? lastSynced : null;
+    } catch (error) {
+      console.error('Error reading last sync time:', error);
+      return null;
+    }
+  }
+
+  private async markSynced(): Promise<void> {
+    try {
+      await this.storage.set(CACHE_KEYS.LAST_SYNCED, Date.now());
+    } catch (error) {
+      console.error('Error saving last sync time:', error);
+    }
+  }
+
+  /**
+   * Drop recorded versions so cleared datasets are downloaded again
+   */
+  private forgetDatasetVersions(cacheKeys: string[]): Promise<void> {
+    return this.queueWrite(async () => {
+      try {
+        const state = await this.getSyncState();
+        if (!cacheKeys.some(key => key in state)) return;
+        cacheKeys.forEach(key => {
+          delete state[key];
+        });
+        await this.storage.set(CACHE_KEYS.SYNC_STATE, state);
+      } catch (error) {
+        console.error('Error saving sync state:', error);
+      }
+    });
+  }
+
   /**
-   * Search programs by query
+   * Serialize read-modify-write updates to shared storage keys.
+   * A failed task is reported to its caller and doesn't block later ones.
    */
-  async searchPrograms(query: string): Promise<Program[]> {
+  private queueWrite(task: () => Promise<void>): Promise<void> {
+    const write = this.pendingWrites.then(task);
+    this.pendingWrites = write.catch(() => undefined);
+    return write;
+  }
+
+  // ============================================
+  // ENVIRONMENT
+  // ============================================
+
+  /**
+   * Get the API environment requests are sent to
+   */
+  getEnvironment(): Promise<APIEnvironment> {
+    if (!this.environment) {
+      this.environment = loadEnvironment(this.storage);
+    }
+    return this.environment;
+  }
+
+  /**
+   * Switch API environment. Cached data from the previous environment is
+   * cleared so datasets are never mixed.
+   */
+  async setEnvironment(environment: APIEnvironment): Promise<void> {
+    await saveEnvironment(environment, this.storage);
+    this.environment = Promise.resolve(environment);
+    await this.clearCache();
+  }
+
+  // ============================================
+  // DATA QUALITY
+  // ============================================
+
+  /**
+   * Get the records dropped or repaired during the last download of each dataset
+   */
+  async getQuarantineReport(): Promise<QuarantineReport> {
+    try {
+      const report = await this.storage.get<QuarantineReport>(CACHE_KEYS.QUARANTINE);
+      return report ?? {};
+    } catch (error) {
+      console.error('Error reading quarantine report:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Replace the quarantine entry for a dataset with its latest issues
+   */
+  private recordQuarantine(cacheKey: string, issues: ValidationIssue[]): Promise<void> {
+    return this.queueWrite(async () => {
+      try {
+        const report = await this.getQuarantineReport();
+        if (issues.length === 0 && !report[cacheKey]) return;
+
+        if (issues.length === 0) {
+          delete report[cacheKey];
+        } else {
+          report[cacheKey] = {
+            checkedAt: new Date().toISOString(),
+            issues: issues.slice(0, MAX_QUARANTINED_ISSUES),
+          };
+        }
+        await this.storage.set(CACHE_KEYS.QUARANTINE, report);
+      } catch (error) {
+        console.error('Error saving quarantine report:', error);
+      }
+    });
+  }
+
+  /**
+   * Search programs by query, most relevant first. Misspelled words match
+   * similarly spelled ones, and known synonyms and abbreviations match the
+   * programs they stand for (e.g. "food stamps" finds CalFresh).
+   *
+   * Queries may also use field qualifiers, quoted phrases, negation and OR,
+   * e.g. `category:food area:"Marin County" -legal`. Throws a
+   * QuerySyntaxError for queries that can't be understood.
+   *
+   * Each result carries the spans of program text that matched, for highlighting.
+   */
+  async searchPrograms(query: string): Promise<SearchResult[]> {
+    const parsed = parseQuery(query);
+    const index = await this.getSearchIndex();
+    if (isPlainQuery(parsed)) {
+      return index.search(query);
+    }
+    return this.runQuery(parsed, index);
+  }
+
+  /**
+   * Suggest a corrected spelling for a query with misspelled words,
+   * or null if every word matched. Only plain word queries get suggestions.
+   */
+  async getSearchSuggestion(query: string): Promise<string | null> {
+    let parsed: ParsedQuery;
+    try {
+      parsed = parseQuery(query);
+    } catch {
+      return null;
+    }
+    if (!isPlainQuery(parsed)) return null;
+
+    const index = await this.getSearchIndex();
+    return index.suggest(query);
+  }
+
+  /**
+   * Suggest program names, categories, eligibility groups and synonyms
+   * completing what's been typed so far
+   */
+  async getAutocompleteSuggestions(query: string): Promise<AutocompleteSuggestion[]> {
+    const index = await this.getAutocompleteIndex();
+    return index.suggest(query);
+  }
+
+  /**
+   * Get the autocomplete index, rebuilding it when any dataset it covers changes.
+   * Filter names are optional, so failing to load them leaves them out.
+   */
+  private async getAutocompleteIndex(): Promise<AutocompleteIndex> {
+    const optional = <T>(load: Promise<T[]>, name: string): Promise<T[]> =>
+      load.catch(error => {
+        console.warn(`Could not load ${name} for autocomplete:`, error);
+        return [];
+      });
+
+    const [programs, synonyms, categories, eligibility, searchIndex] = await Promise.all([
+      this.getPrograms(),
+      this.getSynonyms(),
+      optional(this.getCategories(), 'categories'),
+      optional(this.getEligibility(), 'eligibility'),
+      this.getSearchIndex(),
+    ]);
+
+    const sources = [programs, synonyms, categories, eligibility];
+    if (!this.autocompleteIndex || this.autocompleteIndex.sources.some((source, i) => source !== sources[i])) {
+      this.autocompleteIndex = {
+        sources,
+        index: new AutocompleteIndex({
+          programs,
+          categories,
+          eligibility,
+          synonymGroups: synonyms.groups,
+          countMatches: phrase => searchIndex.search(phrase).length,
+        }),
+      };
+    }
+    return this.autocompleteIndex.index;
+  }
+
+  /**
+   * Programs matching every clause of a structured query. Plain words are
+   * ranked by the search index; qualifiers only narrow the results.
+   */
+  private async runQuery(parsed: ParsedQuery, index: SearchIndex): Promise<SearchResult[]> {
     const programs = await this.getPrograms();
-    const lowerQuery = query.toLowerCase();
+    const resolveValue = await this.getQueryValueResolver(parsed);
 
-    return programs.filter(program =>
-      program.name.toLowerCase().includes(lowerQuery) ||
-      program.description.toLowerCase().includes(lowerQuery)
+    // Plain words are searched together so multi-word synonyms still match
+    const plainWords: string[] = [];
+    const clauses = parsed.clauses.filter(clause => {
+      const [term] = clause;
+      if (clause.length === 1 && term.kind === 'text' && !term.phrase && !term.negated) {
+        plainWords.push(term.text);
+        return false;
+      }
+      return true;
+    });
+
+    // Score and matched text of each matching program, keyed by ID
+    type Matches = Map<string, Omit<SearchResult, 'program'>>;
+    const fromResults = (results: SearchResult[]): Matches =>
+      new Map(results.map(({ program, score, matches }) => [program.id, { score, matches }]));
+
+    const matchTerm = (term: QueryTerm): Matches => {
+      if (term.kind === 'field') {
+        const values = [resolveValue(term.field, term.value)];
+        return new Map(
+          programs
+            .filter(program => FILTER_PREDICATES[term.field](program, values) !== term.negated)
+            .map(program => [program.id, { score: 0, matches: [] }])
+        );
+      }
+      if (term.negated) {
+        // Exclusions are literal, so a typo allowance can't hide extra programs
+        return new Map(
+          programs
+            .filter(program => !containsPhrase(program, term.text))
+            .map(program => [program.id, { score: 0, matches: [] }])
+        );
+      }
+      return fromResults(
+        index
+          .search(term.text)
+          .filter(({ program }) => !term.phrase || containsPhrase(program, term.text))
+      );
+    };
+
+    const clauseMatches = clauses.map(clause => {
+      // Any term of an OR clause may match; keep each program's best score
+      const combined: Matches = new Map();
+      clause.forEach(term => {
+        matchTerm(term).forEach(({ score, matches }, id) => {
+          const existing = combined.get(id);
+          combined.set(id, {
+            score: Math.max(existing?.score ?? 0, score),
+            matches: [...(existing?.matches ?? []), ...matches],
+          });
+        });
+      });
+      return combined;
+    });
+    if (plainWords.length > 0) {
+      clauseMatches.push(fromResults(index.search(plainWords.join(' '))));
+    }
+
+    const results: SearchResult[] = [];
+    programs.forEach(program => {
+      const result: SearchResult = { program, score: 0, matches: [] };
+      for (const matches of clauseMatches) {
+        const match = matches.get(program.id);
+        if (!match) return;
+        result.score += match.score;
+        result.matches.push(...match.matches);
+      }
+      results.push(result);
+    });
+
+    return results.sort((a, b) => b.score - a.score || a.program.name.localeCompare(b.program.name));
+  }
+
+
+  /**
+   * Map qualifier values as typed (an ID or a display name, ignoring case and
+   * accents) to the values programs store. Unrecognized values are matched
+   * as typed.
+   */
+  private async getQueryValueResolver(
+    parsed: ParsedQuery
+  ): Promise<(field: QueryField, value: string) => string> {
+    const fields = new Set(
+      parsed.clauses.flat().flatMap(term => (term.kind === 'field' ? [term.field] : []))
     );
+    const load = async <T>(field: QueryField, fetch: () => Promise<T[]>): Promise<T[]> => {
+      if (!fields.has(field)) return [];
+      try {
+        return await fetch();
+      } catch (error) {
+        console.warn(`Could not load ${field} names for search:`, error);
+        return [];
+      }
+    };
+
+    const [categories, eligibility, areas] = await Promise.all([
+      load('category', () => this.getCategories()),
+      load('eligibility', () => this.getEligibility()),
+      load('area', () => this.getAreas()),
+    ]);
+
+    // Programs list categories and eligibility by ID, but areas by name
+    const options: Record<QueryField, { id: string; name: string; value: string }[]> = {
+      category: categories.map(category => ({ ...category, value: category.id })),
+      eligibility: eligibility.map(type => ({ ...type, value: type.id })),
+      area: areas.map(area => ({ ...area, value: area.name })),
+    };
+
+    return (field, value) => {
+      const typed = foldText(value);
+      const option = options[field].find(
+        candidate => foldText(candidate.id) === typed || foldText(candidate.name) === typed
+      );
+      return option?.value ?? value;
+    };
+  }
+
+  /**
+   * Get the search index over the current programs and synonyms, rebuilding
+   * it when either changes
+   */
+  private async getSearchIndex(): Promise<SearchIndex> {
+    const [programs, synonyms] = await Promise.all([this.getPrograms(), this.getSynonyms()]);
+    if (this.searchIndex?.programs !== programs || this.searchIndex.synonyms !== synonyms) {
+      this.searchIndex = {
+        programs,
+        synonyms,
+        index: new SearchIndex(programs, new SynonymMap(synonyms.groups)),
+      };
+    }
+    return this.searchIndex.index;
+  }
+
+  /**
+   * Synonym groups from the last download, or the bundled list.
+   * Search never waits on the network for them.
+   */
+  private async getSynonyms(): Promise<SynonymsResponse> {
+    const cached = await this.readCacheEntry<SynonymsResponse>(CACHE_KEYS.SYNONYMS);
+    return cached?.data ?? { groups: [] };
+  }
+
+  /**
+   * Download the latest synonym list during a sync. It's optional, so a
+   * failure keeps the current list rather than failing the sync.
+   */
+  private async refreshSynonyms(): Promise<void> {
+    try {
+      await this.fetchWithCache<SynonymsResponse>('/synonyms.json', CACHE_KEYS.SYNONYMS, true, false);
+    } catch (error) {
+      console.warn('Could not refresh search synonyms:', error);
+    }
   }
 
   /**
@@ -223,23 +1313,30 @@ class APIService {
     const programs = await this.getPrograms();
 
     return programs.filter(program => {
-      const categoryMatch = categories.length === 0 || categories.includes(program.category);
+      const categoryMatch = categories.length === 0 || FILTER_PREDICATES.category(program, categories);
       const eligibilityMatch = eligibility.length === 0 ||
-        eligibility.some(e => program.eligibility.includes(e));
-      const areaMatch = areas.length === 0 ||
-        areas.some(a => program.areas.includes(a));
+        FILTER_PREDICATES.eligibility(program, eligibility);
+      const areaMatch = areas.length === 0 || FILTER_PREDICATES.area(program, areas);
 
       return categoryMatch && eligibilityMatch && areaMatch;
     });
   }
 
   /**
-   * Get favorite programs
+   * Get favorite program IDs
    */
   async getFavorites(): Promise<string[]> {
+    const favorites = await this.getFavoriteRecords();
+    return favorites.map(favorite => favorite.id);
+  }
+
+  /**
+   * Get favorites with the date each was saved
+   */
+  async getFavoriteRecords(): Promise<FavoriteProgram[]> {
     try {
-      const favorites = await AsyncStorage.getItem(CACHE_KEYS.FAVORITES);
-      return favorites ? JSON.parse(favorites) : [];
+      const favorites = await this.storage.get<FavoriteProgram[]>(CACHE_KEYS.FAVORITES);
+      return favorites ?? [];
     } catch (error) {
       console.error('Error reading favorites:', error);
       return [];
@@ -247,33 +1344,69 @@ class APIService {
   }
 
   /**
-   * Add program to favorites
+   * Add program to favorites. Queued with snapshot updates so a sync
+   * finishing at the same time can't write back a stale list.
    */
-  async addFavorite(programId: string): Promise<void> {
-    try {
-      const favorites = await this.getFavorites();
-      if (!favorites.includes(programId)) {
-        favorites.push(programId);
-        await AsyncStorage.setItem(CACHE_KEYS.FAVORITES, JSON.stringify(favorites));
+  addFavorite(programId: string): Promise<void> {
+    return this.queueWrite(async () => {
+      try {
+        const favorites = await this.getFavoriteRecords();
+        if (!favorites.some(favorite => favorite.id === programId)) {
+          const cached = await this.getCachedProgram(programId);
+          favorites.push({
+            id: programId,
+            savedAt: new Date().toISOString(),
+            snapshot: cached?.data,
+          });
+          await this.storage.set(CACHE_KEYS.FAVORITES, favorites);
+        }
+      } catch (error) {
+        console.error('Error adding favorite:', error);
+        throw error;
       }
-    } catch (error) {
-      console.error('Error adding favorite:', error);
-      throw error;
-    }
+    });
   }
 
   /**
    * Remove program from favorites
    */
-  async removeFavorite(programId: string): Promise<void> {
-    try {
-      const favorites = await this.getFavorites();
-      const filtered = favorites.filter(id => id !== programId);
-      await AsyncStorage.setItem(CACHE_KEYS.FAVORITES, JSON.stringify(filtered));
-    } catch (error) {
-      console.error('Error removing favorite:', error);
-      throw error;
-    }
+  removeFavorite(programId: string): Promise<void> {
+    return this.queueWrite(async () => {
+      try {
+        const favorites = await this.getFavoriteRecords();
+        const filtered = favorites.filter(favorite => favorite.id !== programId);
+        await this.storage.set(CACHE_KEYS.FAVORITES, filtered);
+      } catch (error) {
+        console.error('Error removing favorite:', error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Refresh favorite snapshots from a newly synced program list, and flag
+   * favorites the list no longer includes
+   */
+  private updateFavoriteSnapshots(programs: Program[]): Promise<void> {
+    return this.queueWrite(async () => {
+      try {
+        const favorites = await this.getFavoriteRecords();
+        if (favorites.length === 0) return;
+
+        const listed = new Map(programs.map(program => [program.id, program]));
+        const removedAt = new Date().toISOString();
+        const updated = favorites.map(favorite => {
+          const program = listed.get(favorite.id);
+          if (program) {
+            return { id: favorite.id, savedAt: favorite.savedAt, snapshot: program };
+          }
+          return favorite.removedAt ? favorite : { ...favorite, removedAt };
+        });
+        await this.storage.set(CACHE_KEYS.FAVORITES, updated);
+      } catch (error) {
+        console.error('Error updating favorite snapshots:', error);
+      }
+    });
   }
 
   /**
@@ -289,29 +1422,141 @@ class APIService {
    */
   async clearCache(): Promise<void> {
     try {
-      const keys = Object.values(CACHE_KEYS).filter(key => key !== CACHE_KEYS.FAVORITES);
-      await AsyncStorage.multiRemove(keys);
+      const programKeys = (await this.storage.keys()).filter(key =>
+        key.startsWith(PROGRAM_CACHE_PREFIX)
+      );
+      const keys = Object.values(CACHE_KEYS)
+        .filter(key => !PRESERVED_KEYS.includes(key))
+        .concat(programKeys);
+      this.memoryCache.clear();
+      this.corruptEntries.clear();
+      await this.storage.remove(keys);
+      await this.cacheManager.reset();
     } catch (error) {
       console.error('Error clearing cache:', error);
       throw error;
     }
   }
 
+  /**
+   * Clear a single dataset. Datasets fall back to the bundled seed and are
+   * downloaded again on next use.
+   */
+  async clearDataset(dataset: CacheDataset): Promise<void> {
+    try {
+      const belongs = CACHE_DATASETS[dataset];
+      const keys = (await this.storage.keys()).filter(belongs);
+      Array.from(this.memoryCache.keys())
+        .filter(belongs)
+        .forEach(key => this.memoryCache.delete(key));
+
+      await this.storage.remove(keys);
+      await this.cacheManager.recordRemoval(keys);
+      keys.forEach(key => this.corruptEntries.delete(key));
+      // Otherwise the seed copy would pass as the recorded version
+      await this.forgetDatasetVersions(keys);
+    } catch (error) {
+      console.error('Error clearing dataset:', dataset, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stored size of each dataset
+   */
+  async getCacheUsage(): Promise<CacheUsage[]> {
+    const sizes = await this.storage.byteSizes();
+    const usage = new Map<CacheUsage['dataset'], CacheUsage>();
+
+    Object.entries(sizes).forEach(([key, bytes]) => {
+      const dataset = (Object.keys(CACHE_DATASETS) as CacheDataset[]).find(name =>
+        CACHE_DATASETS[name](key)
+      ) ?? 'other';
+      const entry = usage.get(dataset) ?? { dataset, bytes: 0, entries: 0 };
+      entry.bytes += bytes;
+      entry.entries += 1;
+      usage.set(dataset, entry);
+    });
+
+    return Array.from(usage.values()).sort((a, b) => b.bytes - a.bytes);
+  }
+
+  /**
+   * Set the cache size budget, kept across launches. Per-program details are
+   * evicted, least recently viewed first, whenever the cache grows past it.
+   */
+  async setCacheBudget(bytes: number): Promise<void> {
+    await this.cacheManager.setBudget(bytes);
+    await this.evictOverBudget();
+  }
+
+  getCacheBudget(): Promise<number> {
+    return this.cacheManager.getBudget();
+  }
+
+  private async evictOverBudget(keep?: string): Promise<void> {
+    const evicted = await this.cacheManager.enforceBudget(keep);
+    evicted.forEach(key => this.memoryCache.delete(key));
+  }
+
   /**
    * Get total cache size in bytes
    */
   async getCacheSize(): Promise<number> {
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      const cacheKeys = keys.filter(key => key.startsWith('@bay_area_discounts:'));
-      const items = await AsyncStorage.multiGet(cacheKeys);
-      return items.reduce((total, item) => total + (item[1]?.length || 0), 0);
+      return await this.storage.byteSize();
     } catch (error) {
       console.error('Error getting cache size:', error);
       return 0;
     }
   }
 
+  // ============================================
+  // WHAT'S NEW
+  // ============================================
+
+  private readonly MAX_CHANGE_HISTORY = 20;
+
+  /**
+   * Get program changes recorded at each sync, newest first
+   */
+  async getChangeHistory(): Promise<ChangeSet[]> {
+    try {
+      const history = await this.storage.get<ChangeSet[]>(CACHE_KEYS.CHANGE_HISTORY);
+      return history ?? [];
+    } catch (error) {
+      console.error('Error reading change history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a change set to the rolling history. Concurrent downloads of the
+   * same version are only recorded once.
+   */
+  private recordChanges(changeSet: ChangeSet): Promise<void> {
+    if (changeSet.changes.length === 0) {
+      return Promise.resolve();
+    }
+
+    return this.queueWrite(async () => {
+      try {
+        const history = await this.getChangeHistory();
+        const duplicate = history.some(entry =>
+          entry.version === changeSet.version && entry.previousVersion === changeSet.previousVersion
+        );
+        if (duplicate) return;
+
+        await this.storage.set(
+          CACHE_KEYS.CHANGE_HISTORY,
+          [changeSet, ...history].slice(0, this.MAX_CHANGE_HISTORY)
+        );
+      } catch (error) {
+        console.error('Error saving change history:', error);
+      }
+    });
+  }
+
   // ============================================
   // RECENT SEARCHES
   // ============================================
@@ -323,8 +1568,8 @@ class APIService {
    */
   async getRecentSearches(): Promise<string[]> {
     try {
-      const searches = await AsyncStorage.getItem(CACHE_KEYS.RECENT_SEARCHES);
-      return searches ? JSON.parse(searches) : [];
+      const searches = await this.storage.get<string[]>(CACHE_KEYS.RECENT_SEARCHES);
+      return searches ?? [];
     } catch (error) {
       console.error('Error reading recent searches:', error);
       return [];
@@ -345,7 +1590,7 @@ class APIService {
       searches.unshift(query);
       // Keep only MAX_RECENT_SEARCHES
       searches = searches.slice(0, this.MAX_RECENT_SEARCHES);
-      await AsyncStorage.setItem(CACHE_KEYS.RECENT_SEARCHES, JSON.stringify(searches));
+      await this.storage.set(CACHE_KEYS.RECENT_SEARCHES, searches);
     } catch (error) {
       console.error('Error saving recent search:', error);
     }
@@ -356,7 +1601,7 @@ class APIService {
    */
   async clearRecentSearches(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(CACHE_KEYS.RECENT_SEARCHES);
+      await this.storage.remove(CACHE_KEYS.RECENT_SEARCHES);
     } catch (error) {
       console.error('Error clearing recent searches:', error);
     }
@@ -373,8 +1618,8 @@ class APIService {
    */
   async getFilterPresets(): Promise<FilterPreset[]> {
     try {
-      const presets = await AsyncStorage.getItem(CACHE_KEYS.FILTER_PRESETS);
-      return presets ? JSON.parse(presets) : [];
+      const presets = await this.storage.get<FilterPreset[]>(CACHE_KEYS.FILTER_PRESETS);
+      return presets ?? [];
     } catch (error) {
       console.error('Error reading filter presets:', error);
       return [];
@@ -403,7 +1648,7 @@ class APIService {
       };
 
       presets.unshift(preset);
-      await AsyncStorage.setItem(CACHE_KEYS.FILTER_PRESETS, JSON.stringify(presets));
+      await this.storage.set(CACHE_KEYS.FILTER_PRESETS, presets);
       return preset;
     } catch (error) {
       console.error('Error saving filter preset:', error);
@@ -418,7 +1663,7 @@ class APIService {
     try {
       let presets = await this.getFilterPresets();
       presets = presets.filter(p => p.id !== id);
-      await AsyncStorage.setItem(CACHE_KEYS.FILTER_PRESETS, JSON.stringify(presets));
+      await this.storage.set(CACHE_KEYS.FILTER_PRESETS, presets);
     } catch (error) {
       console.error('Error deleting filter preset:', error);
     }
@@ -0,0 +1,123 @@
+/**
+ * Search autocomplete
+ * Suggests program names, categories, eligibility groups and known
+ * synonyms while the user types
+ */
+
+import { Category, Eligibility, Program } from '../types';
+import { foldText } from './textNormalizer';
+
+export type AutocompleteSuggestion =
+  | { type: 'program'; label: string; programId: string }
+  | { type: 'category'; label: string; categoryId: string; icon: string }
+  | { type: 'eligibility'; label: string; eligibilityId: string; icon: string }
+  | { type: 'synonym'; label: string };
+
+interface AutocompleteEntry {
+  suggestion: AutocompleteSuggestion;
+  // Normalized label, and each of its words, for prefix matching
+  key: string;
+  words: string[];
+  // Programs the suggestion leads to, for ranking
+  popularity: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Among equally good matches, jump-to-program suggestions come first
+const TYPE_ORDER: Record<AutocompleteSuggestion['type'], number> = {
+  program: 0,
+  category: 1,
+  eligibility: 2,
+  synonym: 3,
+};
+
+/**
+ * Fold accents and case, with hyphens as spaces and other punctuation
+ * removed, so "low income" matches low-income and "pge" matches PG&E
+ */
+function normalize(text: string): string {
+  return foldText(text)
+    .replace(/[-/]+/g, ' ')
+    .replace(/[^a-z0-9\s]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface AutocompleteSources {
+  programs: Program[];
+  categories: Category[];
+  eligibility: Eligibility[];
+  synonymGroups: string[][];
+  // Number of programs a search for the phrase finds
+  countMatches: (phrase: string) => number;
+}
+
+export class AutocompleteIndex {
+  private entries: AutocompleteEntry[] = [];
+
+  constructor({ programs, categories, eligibility, synonymGroups, countMatches }: AutocompleteSources) {
+    programs.forEach(program => {
+      this.add({ type: 'program', label: program.name, programId: program.id }, 1);
+    });
+    categories.forEach(category => {
+      const count = programs.filter(program => program.category === category.id).length;
+      this.add(
+        { type: 'category', label: category.name, categoryId: category.id, icon: category.icon },
+        count
+      );
+    });
+    eligibility.forEach(type => {
+      const count = programs.filter(program => program.eligibility.includes(type.id)).length;
+      this.add(
+        { type: 'eligibility', label: type.name, eligibilityId: type.id, icon: type.icon },
+        count
+      );
+    });
+
+    // Synonyms that repeat a program or filter name would be duplicates
+    const taken = new Set(this.entries.map(entry => entry.key));
+    synonymGroups.flat().forEach(phrase => {
+      const key = normalize(phrase);
+      if (taken.has(key)) return;
+      taken.add(key);
+      this.add({ type: 'synonym', label: phrase }, countMatches(phrase));
+    });
+  }
+
+  /**
+   * Suggestions whose label starts with the query, then those with a word
+   * starting with it; more popular first within each
+   */
+  suggest(query: string, limit: number = MAX_SUGGESTIONS): AutocompleteSuggestion[] {
+    const typed = normalize(query);
+    if (!typed) return [];
+
+    return this.entries
+      .map(entry => ({
+        entry,
+        quality: entry.key.startsWith(typed) ? 2 : entry.words.some(word => word.startsWith(typed)) ? 1 : 0,
+      }))
+      // A term already typed in full has nothing left to complete
+      .filter(({ entry, quality }) =>
+        quality > 0 && !(entry.suggestion.type === 'synonym' && entry.key === typed)
+      )
+      .sort((a, b) =>
+        b.quality - a.quality ||
+        b.entry.popularity - a.entry.popularity ||
+        TYPE_ORDER[a.entry.suggestion.type] - TYPE_ORDER[b.entry.suggestion.type] ||
+        a.entry.suggestion.label.localeCompare(b.entry.suggestion.label)
+      )
+      .slice(0, limit)
+      .map(({ entry }) => entry.suggestion);
+  }
+
+  private add(suggestion: AutocompleteSuggestion, popularity: number): void {
+    // Nothing to show for filters and terms that match no programs
+    if (popularity === 0) return;
+
+    const key = normalize(suggestion.label);
+    if (!key) return;
+    this.entries.push({ suggestion, key, words: key.split(' '), popularity });
+  }
+}
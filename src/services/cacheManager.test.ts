@@ -0,0 +1,43 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { CacheManager } from './cacheManager';
+import { Storage, MemoryStorageBackend } from './storage';
+
+const isProgramDetail = (key: string) => key.startsWith('program:');
+
+describe('CacheManager', () => {
+  test('evicts least recently used program details first', async () => {
+    const storage = new Storage(new MemoryStorageBackend());
+    const manager = new CacheManager(storage, isProgramDetail);
+    await manager.setBudget(250);
+
+    let now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+    for (const key of ['programs', 'program:a', 'program:b', 'program:c']) {
+      await storage.setString(key, 'x'.repeat(80));
+      await manager.recordWrite(key, 80);
+    }
+    manager.recordAccess('program:a');
+
+    expect(await manager.enforceBudget()).toEqual(['program:b']);
+    expect(await storage.keys()).not.toContain('program:b');
+    jest.restoreAllMocks();
+  });
+
+  test('records reads without writing to storage', async () => {
+    const storage = new Storage(new MemoryStorageBackend());
+    const manager = new CacheManager(storage, isProgramDetail);
+    await manager.recordWrite('program:a', 80);
+
+    const set = jest.spyOn(storage, 'set');
+    manager.recordAccess('program:a');
+    manager.recordAccess('program:a');
+    expect(set).not.toHaveBeenCalled();
+  });
+
+  test('keeps the budget across launches', async () => {
+    const storage = new Storage(new MemoryStorageBackend());
+    await new CacheManager(storage, isProgramDetail).setBudget(5 * 1024 * 1024);
+
+    expect(await new CacheManager(storage, isProgramDetail).getBudget()).toBe(5 * 1024 * 1024);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Cache Manager
+ * Keeps the offline cache within a size budget by evicting the least
+ * recently used entries, so the app stays small on devices with little space
+ */
+
+import { Storage } from './storage';
+
+const INDEX_KEY = 'cache_index';
+const BUDGET_KEY = 'cache_budget';
+
+export const DEFAULT_CACHE_BUDGET = 10 * 1024 * 1024; // 10 MB
+
+interface CacheIndexEntry {
+  // Stored length of the entry
+  bytes: number;
+  lastAccessed: number;
+}
+
+// Size and last use of every stored key, so the budget can be checked
+// without reading everything back from storage
+type CacheIndex = Record<string, CacheIndexEntry>;
+
+export class CacheManager {
+  private index: Promise<CacheIndex> | null = null;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private budget: Promise<number> | null = null;
+  // Reads since the index was last saved. Kept in memory so a read doesn't
+  // rewrite the index, and saved with the next write or eviction.
+  private accesses = new Map<string, number>();
+
+  constructor(
+    private readonly storage: Storage,
+    // Entries that may be dropped to get back under budget
+    private readonly isEvictable: (key: string) => boolean
+  ) {}
+
+  /**
+   * Change the budget and remember it across launches
+   */
+  async setBudget(bytes: number): Promise<void> {
+    this.budget = Promise.resolve(bytes);
+    await this.storage.set(BUDGET_KEY, bytes);
+  }
+
+  getBudget(): Promise<number> {
+    if (!this.budget) {
+      this.budget = this.storage
+        .get<number>(BUDGET_KEY)
+        .then(saved => (typeof saved === 'number' && saved > 0 ? saved : DEFAULT_CACHE_BUDGET))
+        .catch(error => {
+          console.error('Error reading cache budget:', error);
+          return DEFAULT_CACHE_BUDGET;
+        });
+    }
+    return this.budget;
+  }
+
+  recordWrite(key: string, bytes: number): Promise<void> {
+    return this.update(index => {
+      index[key] = { bytes, lastAccessed: Date.now() };
+    });
+  }
+
+  /**
+   * Mark an evictable entry as recently used
+   */
+  recordAccess(key: string): void {
+    if (this.isEvictable(key)) {
+      this.accesses.set(key, Date.now());
+    }
+  }
+
+  recordRemoval(keys: string[]): Promise<void> {
+    return this.update(index => {
+      keys.forEach(key => {
+        delete index[key];
+      });
+    });
+  }
+
+  /**
+   * Evict least recently used entries until the stored total fits the
+   * budget, never evicting `keep`. Resolves with the evicted keys.
+   */
+  enforceBudget(keep?: string): Promise<string[]> {
+    const evicted: string[] = [];
+
+    return this.queue(async () => {
+      const [index, budget] = await Promise.all([this.loadIndex(), this.getBudget()]);
+      this.applyAccesses(index);
+      let total = Object.values(index).reduce((sum, entry) => sum + entry.bytes, 0);
+      if (total <= budget) return;
+
+      const candidates = Object.keys(index)
+        .filter(key => key !== keep && this.isEvictable(key))
+        .sort((a, b) => index[a].lastAccessed - index[b].lastAccessed);
+
+      for (const key of candidates) {
+        if (total <= budget) break;
+        total -= index[key].bytes;
+        evicted.push(key);
+      }
+      if (evicted.length > 0) {
+        await this.storage.remove(evicted);
+      }
+      evicted.forEach(key => {
+        delete index[key];
+      });
+      await this.storage.set(INDEX_KEY, index);
+    }).then(() => evicted);
+  }
+
+  /**
+   * Forget the index, e.g. after the whole cache was cleared.
+   * It's rebuilt from storage on next use.
+   */
+  reset(): Promise<void> {
+    return this.queue(async () => {
+      this.index = null;
+      await this.storage.remove(INDEX_KEY);
+    });
+  }
+
+  private update(mutate: (index: CacheIndex) => void): Promise<void> {
+    return this.queue(async () => {
+      const index = await this.loadIndex();
+      this.applyAccesses(index);
+      mutate(index);
+      await this.storage.set(INDEX_KEY, index);
+    });
+  }
+
+  /**
+   * Move reads recorded in memory into the index, to be saved with it
+   */
+  private applyAccesses(index: CacheIndex): void {
+    this.accesses.forEach((lastAccessed, key) => {
+      if (index[key]) {
+        index[key].lastAccessed = Math.max(index[key].lastAccessed, lastAccessed);
+      }
+    });
+    this.accesses.clear();
+  }
+
+  /**
+   * Serialize index updates; a failed update is logged and doesn't block later ones
+   */
+  private queue(task: () => Promise<void>): Promise<void> {
+    this.pendingWrites = this.pendingWrites.then(task).catch(error => {
+      console.error('Cache index error:', error);
+    });
+    return this.pendingWrites;
+  }
+
+  private loadIndex(): Promise<CacheIndex> {
+    if (!this.index) {
+      this.index = this.storage.get<CacheIndex>(INDEX_KEY).then(saved => saved ?? this.buildIndex());
+      // Retry on next use rather than caching a failed read
+      this.index.catch(() => {
+        this.index = null;
+      });
+    }
+    return this.index;
+  }
+
+  /**
+   * Measure what's already stored, for installs that predate the index.
+   * Entries start as least recently used.
+   */
+  private async buildIndex(): Promise<CacheIndex> {
+    const sizes = await this.storage.byteSizes();
+    const index: CacheIndex = {};
+    Object.entries(sizes).forEach(([key, bytes]) => {
+      if (key !== INDEX_KEY && key !== BUDGET_KEY) {
+        index[key] = { bytes, lastAccessed: 0 };
+      }
+    });
+    return index;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Change feed
+ * Works out which programs were added, removed or materially changed
+ * between two versions of the programs dataset
+ */
+
+import { Program, ProgramChange } from '../types';
+
+// Fields whose changes matter to someone passing a discount along.
+// lastUpdated is left out since it changes on every edit.
+const MATERIAL_FIELDS: (keyof Program)[] = [
+  'name',
+  'category',
+  'description',
+  'eligibility',
+  'areas',
+  'city',
+  'website',
+  'cost',
+  'phone',
+  'email',
+  'requirements',
+  'howToApply',
+];
+
+function isSameValue(a: Program[keyof Program], b: Program[keyof Program]): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+  }
+  return a === b;
+}
+
+/**
+ * List added, removed and changed programs, ordered by type then name
+ */
+export function diffPrograms(previous: Program[], next: Program[]): ProgramChange[] {
+  const before = new Map(previous.map(program => [program.id, program]));
+  const after = new Map(next.map(program => [program.id, program]));
+  const changes: ProgramChange[] = [];
+
+  next.forEach(program => {
+    const old = before.get(program.id);
+    if (!old) {
+      changes.push({ type: 'added', programId: program.id, name: program.name });
+      return;
+    }
+
+    const fields = MATERIAL_FIELDS.filter(field => !isSameValue(old[field], program[field]));
+    if (fields.length > 0) {
+      changes.push({ type: 'changed', programId: program.id, name: program.name, fields });
+    }
+  });
+
+  previous.forEach(program => {
+    if (!after.has(program.id)) {
+      changes.push({ type: 'removed', programId: program.id, name: program.name });
+    }
+  });
+
+  const order: ProgramChange['type'][] = ['added', 'changed', 'removed'];
+  return changes.sort(
+    (a, b) => order.indexOf(a.type) - order.indexOf(b.type) || a.name.localeCompare(b.name)
+  );
+}
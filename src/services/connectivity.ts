@@ -0,0 +1,84 @@
+/**
+ * Connectivity Service
+ * Tracks whether the device is online so requests that can't succeed are
+ * skipped and screens can tell users they're looking at saved data
+ */
+
+import * as Network from 'expo-network';
+
+type Listener = () => void;
+
+export interface ConnectivityState {
+  // null until the first network state has been read
+  isOnline: boolean | null;
+  // When the device last went offline
+  offlineSince: number | null;
+}
+
+export class ConnectivityService {
+  private state: ConnectivityState = { isOnline: null, offlineSince: null };
+  private listeners = new Set<Listener>();
+  private reconnectListeners = new Set<Listener>();
+  private subscription: ReturnType<typeof Network.addNetworkStateListener> | null = null;
+
+  /**
+   * Start listening for network changes
+   */
+  start(): void {
+    if (this.subscription) return;
+
+    this.subscription = Network.addNetworkStateListener(network => this.update(network));
+    Network.getNetworkStateAsync()
+      .then(network => this.update(network))
+      .catch(error => console.warn('Error reading network state:', error));
+  }
+
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): ConnectivityState => this.state;
+
+  /**
+   * Only a definite "no connection" counts as offline, so an unknown state
+   * never blocks requests
+   */
+  isOffline(): boolean {
+    return this.state.isOnline === false;
+  }
+
+  /**
+   * Run a callback whenever the connection comes back after being offline
+   */
+  onReconnect(listener: Listener): () => void {
+    this.reconnectListeners.add(listener);
+    return () => {
+      this.reconnectListeners.delete(listener);
+    };
+  }
+
+  private update(network: Network.NetworkState) {
+    const isOnline = network.isConnected !== false && network.isInternetReachable !== false;
+    if (isOnline === this.state.isOnline) return;
+
+    const reconnected = isOnline && this.state.isOnline === false;
+    this.state = { isOnline, offlineSince: isOnline ? null : Date.now() };
+    this.listeners.forEach(listener => listener());
+
+    if (reconnected) {
+      this.reconnectListeners.forEach(listener => listener());
+    }
+  }
+}
+
+export const connectivity = new ConnectivityService();
+
+export default connectivity;
@@ -0,0 +1,101 @@
+/**
+ * API Environments
+ * Lets the team point the app at staging, a local static server or
+ * bundled fixtures before a dataset goes live
+ */
+
+import { Storage, appStorage } from './storage';
+import programsFixture from '../fixtures/programs.json';
+import categoriesFixture from '../fixtures/categories.json';
+import eligibilityFixture from '../fixtures/eligibility.json';
+import areasFixture from '../fixtures/areas.json';
+import metadataFixture from '../fixtures/metadata.json';
+import synonymsFixture from '../fixtures/synonyms.json';
+
+export type APIEnvironmentId = 'production' | 'staging' | 'custom' | 'fixtures';
+
+export interface APIEnvironment {
+  id: APIEnvironmentId;
+  // Only used by the custom environment
+  customUrl?: string;
+}
+
+export const API_ENVIRONMENTS: Record<APIEnvironmentId, { label: string; baseUrl: string | null }> = {
+  production: { label: 'Production', baseUrl: 'https://bayareadiscounts.com/api' },
+  staging: { label: 'Staging', baseUrl: 'https://staging.bayareadiscounts.com/api' },
+  custom: { label: 'Custom URL', baseUrl: null },
+  fixtures: { label: 'Bundled Fixtures', baseUrl: null },
+};
+
+export const DEFAULT_ENVIRONMENT: APIEnvironment = { id: 'production' };
+
+const ENVIRONMENT_STORAGE_KEY = 'api_environment';
+
+/**
+ * Resolve the base URL requests should go to, or null for fixtures
+ */
+export function getBaseUrl(environment: APIEnvironment): string | null {
+  if (environment.id === 'custom') {
+    return environment.customUrl ? environment.customUrl.replace(/\/+$/, '') : null;
+  }
+  return API_ENVIRONMENTS[environment.id].baseUrl;
+}
+
+export function getEnvironmentLabel(environment: APIEnvironment): string {
+  if (environment.id === 'custom' && environment.customUrl) {
+    return environment.customUrl;
+  }
+  return API_ENVIRONMENTS[environment.id].label;
+}
+
+export async function loadEnvironment(storage: Storage = appStorage): Promise<APIEnvironment> {
+  try {
+    const saved = await storage.get<APIEnvironment>(ENVIRONMENT_STORAGE_KEY);
+    if (saved && saved.id in API_ENVIRONMENTS) {
+      return saved;
+    }
+  } catch (error) {
+    console.error('Error loading API environment:', error);
+  }
+  return DEFAULT_ENVIRONMENT;
+}
+
+export async function saveEnvironment(
+  environment: APIEnvironment,
+  storage: Storage = appStorage
+): Promise<void> {
+  await storage.set(ENVIRONMENT_STORAGE_KEY, environment);
+}
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const FIXTURES: Record<string, unknown> = {
+  '/programs.json': programsFixture,
+  '/categories.json': categoriesFixture,
+  '/eligibility.json': eligibilityFixture,
+  '/areas.json': areasFixture,
+  '/metadata.json': metadataFixture,
+  '/synonyms.json': synonymsFixture,
+};
+
+/**
+ * Serve an endpoint from the bundled fixtures, mirroring the static API layout
+ */
+export function getFixtureResponse(endpoint: string): Response {
+  let body = FIXTURES[endpoint];
+
+  const programMatch = endpoint.match(/^\/programs\/(.+)\.json$/);
+  if (programMatch) {
+    body = programsFixture.programs.find(program => program.id === programMatch[1]);
+  }
+
+  if (body === undefined) {
+    return new Response(null, { status: 404, statusText: 'Not Found' });
+  }
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * API error taxonomy
+ * Every failure leaving APIService is an APIError with a kind, so screens
+ * can explain what happened without showing raw messages like "AbortError"
+ */
+
+import { InvalidPayloadError } from './validation';
+
+export type APIErrorKind = 'offline' | 'timeout' | 'not-found' | 'server' | 'invalid-data' | 'unknown';
+
+export class APIError extends Error {
+  constructor(
+    readonly kind: APIErrorKind,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'APIError';
+  }
+}
+
+/**
+ * Build an error for a non-OK HTTP response
+ */
+export function httpError(response: Response): APIError {
+  const kind: APIErrorKind = response.status === 404 || response.status === 410 ? 'not-found' : 'server';
+  return new APIError(kind, `HTTP ${response.status}: ${response.statusText}`, response.status);
+}
+
+/**
+ * Classify anything thrown while talking to the API
+ */
+export function toAPIError(error: unknown): APIError {
+  if (error instanceof APIError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof InvalidPayloadError || error instanceof SyntaxError) {
+    return new APIError('invalid-data', message);
+  }
+  // fetchWithTimeout aborts the request when it runs out of time
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new APIError('timeout', message);
+  }
+  // fetch rejects with a TypeError ("Network request failed") when offline
+  if (error instanceof TypeError) {
+    return new APIError('offline', message);
+  }
+  return new APIError('unknown', message);
+}
+
+export function getErrorKind(error: unknown): APIErrorKind {
+  return toAPIError(error).kind;
+}
@@ -0,0 +1,51 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { Storage, MemoryStorageBackend } from './storage';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, runMigrations } from './migrations';
+
+const program = { id: 'calfresh', name: 'CalFresh' };
+
+describe('runMigrations', () => {
+  test('upgrades favorites saved as plain IDs', async () => {
+    const storage = new Storage(new MemoryStorageBackend());
+    await storage.set('favorites', ['calfresh', 'muni']);
+    await storage.set('programs', { data: { programs: [program] }, timestamp: 0 });
+
+    await runMigrations(storage);
+
+    const favorites = await storage.get<any[]>('favorites');
+    expect(favorites?.map(favorite => favorite.id)).toEqual(['calfresh', 'muni']);
+    expect(favorites?.every(favorite => typeof favorite.savedAt === 'string')).toBe(true);
+    expect(favorites?.[0].snapshot).toEqual(program);
+    expect(favorites?.[1].snapshot).toBeUndefined();
+    expect(await getSchemaVersion(storage)).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  test('drops favorites that are neither IDs nor records', async () => {
+    const storage = new Storage(new MemoryStorageBackend());
+    await storage.set('favorites', ['calfresh', 42, null]);
+
+    await runMigrations(storage);
+
+    expect((await storage.get<any[]>('favorites'))?.map(favorite => favorite.id)).toEqual(['calfresh']);
+  });
+
+  test('skips migrations already applied', async () => {
+    const storage = new Storage(new MemoryStorageBackend());
+    await storage.set('schema_version', CURRENT_SCHEMA_VERSION);
+    await storage.set('favorites', ['calfresh']);
+
+    await runMigrations(storage);
+
+    expect(await storage.get('favorites')).toEqual(['calfresh']);
+  });
+
+  test('leaves storage from a newer app version alone', async () => {
+    const storage = new Storage(new MemoryStorageBackend());
+    await storage.set('schema_version', CURRENT_SCHEMA_VERSION + 1);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await runMigrations(storage);
+
+    expect(await getSchemaVersion(storage)).toBe(CURRENT_SCHEMA_VERSION + 1);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Storage schema migrations
+ * Upgrades persisted data in place when stored shapes change.
+ * Migrations reference raw storage keys and must never be edited once
+ * released - add a new one instead.
+ */
+
+import { FavoriteProgram, Program } from '../types';
+import { Storage, appStorage } from './storage';
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (storage: Storage) => Promise<void>;
+}
+
+const SCHEMA_VERSION_KEY = 'schema_version';
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Store favorites as FavoriteProgram records with a saved date',
+    migrate: async storage => {
+      const favorites = await storage.get<unknown[]>('favorites');
+      if (!Array.isArray(favorites)) return;
+
+      // The original save time was never recorded, so use the migration time
+      const savedAt = new Date().toISOString();
+      const migrated: FavoriteProgram[] = favorites
+        .map(item => (typeof item === 'string' ? { id: item, savedAt } : item))
+        .filter((item): item is FavoriteProgram =>
+          typeof item === 'object' && item !== null && typeof (item as FavoriteProgram).id === 'string'
+        );
+      await storage.set('favorites', migrated);
+    },
+  },
+  {
+    version: 2,
+    description: 'Attach last-known program details to favorites',
+    migrate: async storage => {
+      const favorites = await storage.get<FavoriteProgram[]>('favorites');
+      if (!Array.isArray(favorites) || favorites.length === 0) return;
+
+      // Snapshots are also filled in on the next sync, so an unreadable
+      // programs cache isn't worth failing the migration over
+      let programs: Program[];
+      try {
+        const cached = await storage.get<{ data?: { programs?: Program[] } }>('programs');
+        programs = cached?.data?.programs ?? [];
+      } catch (error) {
+        console.warn('Skipping favorite snapshots, programs cache unreadable:', error);
+        return;
+      }
+
+      const listed = new Map(programs.map(program => [program.id, program]));
+      await storage.set(
+        'favorites',
+        favorites.map(favorite =>
+          favorite.snapshot || !listed.has(favorite.id)
+            ? favorite
+            : { ...favorite, snapshot: listed.get(favorite.id) }
+        )
+      );
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function getSchemaVersion(storage: Storage = appStorage): Promise<number> {
+  const version = await storage.get<number>(SCHEMA_VERSION_KEY);
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * Run every migration newer than the stored schema version, in order.
+ * The version is bumped after each step so a failure resumes where it stopped.
+ */
+export async function runMigrations(storage: Storage = appStorage): Promise<void> {
+  try {
+    const current = await getSchemaVersion(storage);
+
+    if (current > CURRENT_SCHEMA_VERSION) {
+      console.warn(`Storage schema ${current} is newer than this app supports (${CURRENT_SCHEMA_VERSION})`);
+      return;
+    }
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= current) continue;
+
+      await migration.migrate(storage);
+      await storage.set(SCHEMA_VERSION_KEY, migration.version);
+    }
+  } catch (error) {
+    console.error('Storage migration error:', error);
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, test, expect } from '@jest/globals';
+import { FILTER_PREDICATES, NO_FILTERS, OTHER_AREAS, matchesFilters } from './programFilter';
+import { Program } from '../types';
+import fixtures from '../fixtures/programs.json';
+
+const programs = fixtures.programs as Program[];
+const [clipper, calfresh, museum, laptop] = programs;
+
+describe('area filtering', () => {
+  test('a county also matches Bay Area and statewide programs', () => {
+    const matching = programs.filter(p => matchesFilters(p, { ...NO_FILTERS, area: 'Marin County' }, []));
+    expect(matching).toEqual([clipper, calfresh, laptop]);
+  });
+
+  test('"None of the Above" matches only broad area programs', () => {
+    const matching = programs.filter(p => matchesFilters(p, { ...NO_FILTERS, area: OTHER_AREAS }, []));
+    expect(matching).toEqual([clipper, calfresh]);
+  });
+
+  test('qualifier values expand the same way as the filter', () => {
+    expect(programs.filter(p => FILTER_PREDICATES.area(p, ['San Francisco']))).toEqual([clipper, calfresh, museum]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Program filtering
+ * The category, area, eligibility and saved-only filters and sort orders
+ * shared by Browse, Search and search query qualifiers, so every tab
+ * narrows and orders programs the same way
+ */
+
+import { Program } from '../types';
+import type { QueryField } from './queryParser';
+
+export type SortOption =
+  | 'relevance'
+  | 'name-asc'
+  | 'name-desc'
+  | 'area-asc'
+  | 'area-desc'
+  | 'category-asc'
+  | 'category-desc'
+  | 'recently-verified';
+
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'relevance', label: 'Best Match' },
+  { value: 'name-asc', label: 'Name (A-Z)' },
+  { value: 'name-desc', label: 'Name (Z-A)' },
+  { value: 'area-asc', label: 'Area (A-Z)' },
+  { value: 'area-desc', label: 'Area (Z-A)' },
+  { value: 'category-asc', label: 'Category (A-Z)' },
+  { value: 'category-desc', label: 'Category (Z-A)' },
+  { value: 'recently-verified', label: 'Recently Verified' },
+];
+
+// Category display names and icons (mapped from actual program category values)
+export const CATEGORY_CONFIG: { [key: string]: { name: string; icon: string } } = {
+  'community': { name: 'Community', icon: '🏘️' },
+  'education': { name: 'Education', icon: '📚' },
+  'equipment': { name: 'Equipment', icon: '🛠️' },
+  'finance': { name: 'Finance', icon: '💰' },
+  'food': { name: 'Food', icon: '🍎' },
+  'health': { name: 'Health', icon: '💊' },
+  'legal': { name: 'Legal', icon: '⚖️' },
+  'library_resources': { name: 'Library', icon: '📖' },
+  'pet_resources': { name: 'Pets', icon: '🐾' },
+  'recreation': { name: 'Recreation', icon: '⚽' },
+  'technology': { name: 'Technology', icon: '💻' },
+  'transportation': { name: 'Transportation', icon: '🚌' },
+  'utilities': { name: 'Utilities', icon: '🏠' },
+};
+
+// Bay Area counties for the "Where do I live?" filter
+export const BAY_AREA_COUNTIES = [
+  { id: 'San Francisco', name: 'San Francisco', icon: '🌉' },
+  { id: 'Alameda County', name: 'Alameda County', icon: '📍' },
+  { id: 'Contra Costa County', name: 'Contra Costa', icon: '📍' },
+  { id: 'Marin County', name: 'Marin County', icon: '📍' },
+  { id: 'San Mateo County', name: 'San Mateo', icon: '📍' },
+  { id: 'Santa Clara County', name: 'Santa Clara', icon: '📍' },
+  { id: 'Solano County', name: 'Solano County', icon: '📍' },
+  { id: 'Sonoma County', name: 'Sonoma County', icon: '📍' },
+];
+
+// Areas that apply to everyone (used for "None of the Above" and as additions to county selections)
+const BROAD_AREAS = ['Bay Area', 'Bay Area-wide', 'Statewide', 'California', 'Nationwide'];
+
+// Area filter value for "None of the Above": broad area programs only
+export const OTHER_AREAS = 'none';
+
+// The program areas an area selection matches: a county also matches
+// programs available across the Bay Area or beyond
+function expandArea(area: string): string[] {
+  return area === OTHER_AREAS ? BROAD_AREAS : [area, ...BROAD_AREAS];
+}
+
+// How each filter matches a program against the values selected for it
+export const FILTER_PREDICATES: Record<QueryField, (program: Program, values: string[]) => boolean> = {
+  category: (program, values) => values.includes(program.category),
+  eligibility: (program, values) => values.some(e => program.eligibility.includes(e)),
+  area: (program, values) => values.flatMap(expandArea).some(a => program.areas.includes(a)),
+};
+
+export interface ProgramFilters {
+  category: string | null;
+  // A county from BAY_AREA_COUNTIES, or OTHER_AREAS
+  area: string | null;
+  eligibility: string[];
+  savedOnly: boolean;
+}
+
+export const NO_FILTERS: ProgramFilters = {
+  category: null,
+  area: null,
+  eligibility: [],
+  savedOnly: false,
+};
+
+export function hasActiveFilters(filters: ProgramFilters): boolean {
+  return !!filters.category || !!filters.area || filters.eligibility.length > 0 || filters.savedOnly;
+}
+
+/**
+ * Whether a program passes every active filter
+ */
+export function matchesFilters(program: Program, filters: ProgramFilters, favorites: string[]): boolean {
+  if (filters.savedOnly && !favorites.includes(program.id)) {
+    return false;
+  }
+  if (filters.category && !FILTER_PREDICATES.category(program, [filters.category])) {
+    return false;
+  }
+  if (filters.area && !FILTER_PREDICATES.area(program, [filters.area])) {
+    return false;
+  }
+  if (filters.eligibility.length > 0 && !FILTER_PREDICATES.eligibility(program, filters.eligibility)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Keep the items whose program passes the filters, e.g. programs or search results
+ */
+export function applyFilters<T>(
+  items: T[],
+  getProgram: (item: T) => Program,
+  filters: ProgramFilters,
+  favorites: string[]
+): T[] {
+  if (!hasActiveFilters(filters)) return items;
+  return items.filter(item => matchesFilters(getProgram(item), filters, favorites));
+}
+
+const getAreaName = (program: Program) => program.city || program.areas[0] || '';
+const getCategoryName = (program: Program) => CATEGORY_CONFIG[program.category]?.name || program.category;
+
+/**
+ * Sort items by their program. Relevance keeps the order given, which for
+ * search results is best match first.
+ */
+export function sortPrograms<T>(items: T[], getProgram: (item: T) => Program, sortBy: SortOption): T[] {
+  const compare = (a: T, b: T): number => {
+    const programA = getProgram(a);
+    const programB = getProgram(b);
+    switch (sortBy) {
+      case 'name-asc':
+        return programA.name.localeCompare(programB.name);
+      case 'name-desc':
+        return programB.name.localeCompare(programA.name);
+      case 'area-asc':
+        return getAreaName(programA).localeCompare(getAreaName(programB));
+      case 'area-desc':
+        return getAreaName(programB).localeCompare(getAreaName(programA));
+      case 'category-asc':
+        return getCategoryName(programA).localeCompare(getCategoryName(programB));
+      case 'category-desc':
+        return getCategoryName(programB).localeCompare(getCategoryName(programA));
+      case 'recently-verified':
+        return new Date(programB.lastUpdated).getTime() - new Date(programA.lastUpdated).getTime();
+      default:
+        return 0;
+    }
+  };
+
+  return sortBy === 'relevance' ? items : [...items].sort(compare);
+}
+
+/**
+ * Categories with a known display name that at least one program uses,
+ * sorted by name
+ */
+export function getAvailableCategories(programs: Program[]): string[] {
+  const categorySet = new Set(programs.map(p => p.category));
+  return Array.from(categorySet)
+    .filter(cat => CATEGORY_CONFIG[cat])
+    .sort((a, b) => (CATEGORY_CONFIG[a]?.name || a).localeCompare(CATEGORY_CONFIG[b]?.name || b));
+}
@@ -0,0 +1,55 @@
+import { describe, test, expect } from '@jest/globals';
+import { QuerySyntaxError, isPlainQuery, parseQuery } from './queryParser';
+
+describe('parseQuery', () => {
+  test('reads plain words as separate clauses', () => {
+    const parsed = parseQuery('free  transit');
+    expect(parsed.clauses).toEqual([
+      [{ kind: 'text', text: 'free', phrase: false, negated: false }],
+      [{ kind: 'text', text: 'transit', phrase: false, negated: false }],
+    ]);
+    expect(isPlainQuery(parsed)).toBe(true);
+  });
+
+  test('reads field qualifiers, with aliases and quoted values', () => {
+    expect(parseQuery('Categories:food area:"Marin County"').clauses).toEqual([
+      [{ kind: 'field', field: 'category', value: 'food', negated: false }],
+      [{ kind: 'field', field: 'area', value: 'Marin County', negated: false }],
+    ]);
+  });
+
+  test('reads phrases, including curly quotes', () => {
+    expect(parseQuery('“food stamps”').clauses).toEqual([
+      [{ kind: 'text', text: 'food stamps', phrase: true, negated: false }],
+    ]);
+  });
+
+  test('reads negation, but not a lone dash', () => {
+    expect(parseQuery('-legal - eligible:seniors').clauses).toEqual([
+      [{ kind: 'text', text: 'legal', phrase: false, negated: true }],
+      [{ kind: 'text', text: '-', phrase: false, negated: false }],
+      [{ kind: 'field', field: 'eligibility', value: 'seniors', negated: false }],
+    ]);
+  });
+
+  test('joins terms around OR into one clause', () => {
+    const parsed = parseQuery('muni OR bart clipper');
+    expect(parsed.clauses.map(clause => clause.length)).toEqual([2, 1]);
+    expect(isPlainQuery(parsed)).toBe(false);
+  });
+
+  test('treats lowercase "or" as a word', () => {
+    expect(parseQuery('muni or bart').clauses).toHaveLength(3);
+  });
+
+  test.each([
+    ['city:Oakland', 'Unknown field "city"'],
+    ['"food stamps', 'Missing closing quote'],
+    ['category:', 'Missing a value after "category:"'],
+    ['OR muni', 'OR needs a search term on each side'],
+    ['muni OR', 'OR needs a search term on each side'],
+  ])('rejects %s', (query, message) => {
+    expect(() => parseQuery(query)).toThrow(QuerySyntaxError);
+    expect(() => parseQuery(query)).toThrow(message);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Search query parser
+ * Understands field qualifiers (`category:food`), quoted phrases,
+ * negation (`-legal`) and OR, for people who search the app all day
+ */
+
+export type QueryField = 'category' | 'eligibility' | 'area';
+
+// Field names accepted before a colon
+const FIELD_NAMES: Record<string, QueryField> = {
+  category: 'category',
+  categories: 'category',
+  eligibility: 'eligibility',
+  eligible: 'eligibility',
+  area: 'area',
+  areas: 'area',
+};
+
+const OR_OPERATOR = 'OR';
+
+// Keyboards with smart punctuation type curly quotes
+const SMART_QUOTES = /[“”„‟]/g;
+
+export type QueryTerm =
+  | { kind: 'text'; text: string; phrase: boolean; negated: boolean }
+  | { kind: 'field'; field: QueryField; value: string; negated: boolean };
+
+export interface ParsedQuery {
+  // Every clause must match; a clause matches if any of its terms does
+  clauses: QueryTerm[][];
+}
+
+/**
+ * Thrown when a query can't be understood, with a message to show the user
+ */
+export class QuerySyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+/**
+ * Parse a search query. Words without a qualifier are plain search text.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const input = query.replace(SMART_QUOTES, '"');
+  const clauses: QueryTerm[][] = [];
+  let pendingOr = false;
+  let position = 0;
+
+  const skipWhitespace = () => {
+    while (position < input.length && /\s/.test(input[position])) position++;
+  };
+
+  // A quoted phrase, or a bare word up to the next space
+  const readValue = (): { value: string; quoted: boolean } => {
+    if (input[position] === '"') {
+      const end = input.indexOf('"', position + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError('Missing closing quote');
+      }
+      const value = input.slice(position + 1, end).trim();
+      position = end + 1;
+      return { value, quoted: true };
+    }
+
+    const start = position;
+    while (position < input.length && !/\s/.test(input[position])) position++;
+    return { value: input.slice(start, position), quoted: false };
+  };
+
+  skipWhitespace();
+  while (position < input.length) {
+    if (input.startsWith(OR_OPERATOR, position) && isWordEnd(input, position + OR_OPERATOR.length)) {
+      if (clauses.length === 0 || pendingOr) {
+        throw new QuerySyntaxError('OR needs a search term on each side');
+      }
+      pendingOr = true;
+      position += OR_OPERATOR.length;
+      skipWhitespace();
+      continue;
+    }
+
+    // A lone "-" is just punctuation, not negation
+    const negated = input[position] === '-' && position + 1 < input.length && !/\s/.test(input[position + 1]);
+    if (negated) position++;
+
+    let term: QueryTerm | null;
+    const qualifier = input.slice(position).match(/^([a-zA-Z]+):/);
+    if (qualifier) {
+      const name = qualifier[1];
+      const field = FIELD_NAMES[name.toLowerCase()];
+      if (!field) {
+        throw new QuerySyntaxError(`Unknown field "${name}". Try category:, eligibility: or area:`);
+      }
+      position += qualifier[0].length;
+      const { value } = readValue();
+      if (!value) {
+        throw new QuerySyntaxError(`Missing a value after "${name}:"`);
+      }
+      term = { kind: 'field', field, value, negated };
+    } else {
+      const { value, quoted } = readValue();
+      term = value ? { kind: 'text', text: value, phrase: quoted, negated } : null;
+    }
+
+    if (term) {
+      if (pendingOr) {
+        clauses[clauses.length - 1].push(term);
+      } else {
+        clauses.push([term]);
+      }
+      pendingOr = false;
+    }
+    skipWhitespace();
+  }
+
+  if (pendingOr) {
+    throw new QuerySyntaxError('OR needs a search term on each side');
+  }
+  return { clauses };
+}
+
+/**
+ * Whether a query is just words to search for, with no qualifiers,
+ * phrases, negation or OR
+ */
+export function isPlainQuery(query: ParsedQuery): boolean {
+  return query.clauses.every(clause => {
+    const [term] = clause;
+    return clause.length === 1 && term.kind === 'text' && !term.phrase && !term.negated;
+  });
+}
+
+function isWordEnd(input: string, position: number): boolean {
+  return position >= input.length || /\s/.test(input[position]);
+}
@@ -0,0 +1,57 @@
+import { describe, test, expect } from '@jest/globals';
+import { SearchIndex, containsPhrase, editDistance } from './searchIndex';
+import { SynonymMap } from './synonyms';
+import { Program } from '../types';
+import fixtures from '../fixtures/programs.json';
+
+const programs = fixtures.programs as Program[];
+const index = new SearchIndex(programs, new SynonymMap([['calfresh', 'snap', 'food stamps']]));
+const ids = (query: string) => index.search(query).map(result => result.program.id);
+
+describe('SearchIndex', () => {
+  test('ranks name matches above description matches', () => {
+    expect(ids('calfresh')[0]).toBe('fixture-calfresh');
+  });
+
+  test('requires every word to match', () => {
+    expect(ids('museum laptop')).toEqual([]);
+  });
+
+  test('matches word forms and accents', () => {
+    expect(ids('laptops')).toEqual(['fixture-library-laptop']);
+    expect(ids('muséum')).toEqual(['fixture-senior-museum-pass']);
+  });
+
+  test('tolerates typos', () => {
+    expect(ids('calfrseh')).toEqual(['fixture-calfresh']);
+  });
+
+  test('expands synonyms', () => {
+    expect(ids('food stamps')).toContain('fixture-calfresh');
+  });
+
+  test('reports the matched text', () => {
+    const [result] = index.search('laptop');
+    expect(result.matches).toContainEqual({ field: 'name', start: 17, end: 23 });
+  });
+
+  test('suggests a corrected spelling', () => {
+    expect(index.suggest('musuem')).toBe('museum');
+    expect(index.suggest('museum')).toBeNull();
+  });
+});
+
+describe('containsPhrase', () => {
+  test('matches words in order', () => {
+    const [, calfresh] = programs;
+    expect(containsPhrase(calfresh, 'food benefits')).toBe(true);
+    expect(containsPhrase(calfresh, 'benefits food')).toBe(false);
+  });
+});
+
+describe('editDistance', () => {
+  test('counts edits, stopping past the limit', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('kitten', 'sitting', 1)).toBeGreaterThan(1);
+  });
+});
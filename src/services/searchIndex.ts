@@ -0,0 +1,423 @@
+/**
+ * Search index
+ * In-memory inverted index over program text with per-field weights,
+ * so the most relevant programs rank first
+ */
+
+import { Program } from '../types';
+import type { SynonymMap } from './synonyms';
+import { WordPart, isStopWord, splitWords, stem, tokenize } from './textNormalizer';
+
+export type SearchField =
+  | 'name'
+  | 'description'
+  | 'eligibility'
+  | 'requirements'
+  | 'howToApply'
+  | 'cost'
+  | 'city'
+  | 'areas';
+
+// How much a match in each field counts towards relevance
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  eligibility: 6,
+  areas: 4,
+  city: 4,
+  description: 3,
+  cost: 2,
+  requirements: 2,
+  howToApply: 1,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// Matching only the start of a word counts for less than the whole word,
+// and a misspelled word for less again
+const PREFIX_MATCH_FACTOR = 0.5;
+const FUZZY_MATCH_FACTOR = 0.3;
+// Matching another name for what was typed counts nearly as much as the name itself
+const SYNONYM_MATCH_FACTOR = 0.8;
+const MIN_PREFIX_LENGTH = 2;
+
+// Where a query matched, as a character range within one field's text
+// (array fields are joined with spaces)
+export interface MatchSpan {
+  field: SearchField;
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  program: Program;
+  score: number;
+  matches: MatchSpan[];
+}
+
+// A program's score for part of a query, and the indexed words it matched on
+interface DocMatch {
+  score: number;
+  tokens: Set<string>;
+}
+
+// Part of a query that must match: the words typed, or any of their synonyms
+interface QueryClause {
+  // Normalized words as typed, and their stems
+  words: string[];
+  terms: string[];
+  alternatives: string[][];
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+  // Occurrences of the token in the field
+  count: number;
+}
+
+/**
+ * Group word parts by the whitespace-separated word they belong to
+ */
+function groupWords(parts: WordPart[]): WordPart[][] {
+  const words: WordPart[][] = [];
+  parts.forEach((part, i) => {
+    if (i > 0 && part.word === parts[i - 1].word) {
+      words[words.length - 1].push(part);
+    } else {
+      words.push([part]);
+    }
+  });
+  return words;
+}
+
+/**
+ * Tokens to index for a piece of text: the stem of each word, plus the word
+ * itself where it differs so partly typed words still match as prefixes.
+ * Hyphenated and punctuated words are also indexed joined up, so "medical"
+ * finds Medi-Cal and "pge" finds PG&E.
+ */
+function indexTokens(words: WordPart[]): string[] {
+  const tokens: string[] = [];
+  groupWords(words).forEach(parts => {
+    parts.forEach(part => {
+      if (isStopWord(part.text)) return;
+      const stemmed = stem(part.text);
+      tokens.push(stemmed);
+      if (stemmed !== part.text) tokens.push(part.text);
+    });
+    if (parts.length > 1) {
+      tokens.push(stem(parts.map(part => part.text).join('')));
+    }
+  });
+  return tokens;
+}
+
+/**
+ * How many typos to tolerate in a word; short words must match exactly
+ */
+function maxEditDistance(term: string): number {
+  if (term.length <= 3) return 0;
+  return term.length <= 5 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus transpositions),
+ * giving up once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoRowsBack[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+/**
+ * Sum per-program scores, keeping only programs present in every map
+ */
+function intersectMatches(maps: Map<number, DocMatch>[]): Map<number, DocMatch> {
+  if (maps.length === 0) return new Map();
+
+  const [first, ...rest] = maps;
+  const combined = new Map<number, DocMatch>();
+  first.forEach((match, doc) => {
+    const total = { score: match.score, tokens: new Set(match.tokens) };
+    for (const map of rest) {
+      const other = map.get(doc);
+      if (other === undefined) return;
+      total.score += other.score;
+      other.tokens.forEach(token => total.tokens.add(token));
+    }
+    combined.set(doc, total);
+  });
+  return combined;
+}
+
+/**
+ * Keep the higher of two scores for a program, remembering every word matched
+ */
+function mergeBest(matches: Map<number, DocMatch>, doc: number, score: number, tokens: Iterable<string>): void {
+  const existing = matches.get(doc) ?? { score: 0, tokens: new Set<string>() };
+  existing.score = Math.max(existing.score, score);
+  for (const token of tokens) {
+    existing.tokens.add(token);
+  }
+  matches.set(doc, existing);
+}
+
+function getFieldText(program: Program, field: SearchField): string {
+  const value = program[field];
+  if (Array.isArray(value)) return value.join(' ');
+  return value ?? '';
+}
+
+/**
+ * Whether the words of a phrase appear together, in order, in any searchable
+ * field of a program. Unlike search, there's no typo tolerance.
+ */
+export function containsPhrase(program: Program, phrase: string): boolean {
+  const words = tokenize(phrase).join(' ');
+  if (!words) return false;
+
+  return SEARCH_FIELDS.some(field =>
+    ` ${tokenize(getFieldText(program, field)).join(' ')} `.includes(` ${words} `)
+  );
+}
+
+/**
+ * Locate the words of a program that are among the given indexed tokens.
+ * A hyphenated or punctuated word indexed joined up is spanned as a whole.
+ */
+export function findMatchSpans(program: Program, tokens: Set<string>): MatchSpan[] {
+  const spans: MatchSpan[] = [];
+  const matches = (text: string) => tokens.has(stem(text)) || tokens.has(text);
+
+  SEARCH_FIELDS.forEach(field => {
+    groupWords(splitWords(getFieldText(program, field))).forEach(parts => {
+      const first = parts[0];
+      const last = parts[parts.length - 1];
+      if (parts.length > 1 && matches(parts.map(part => part.text).join(''))) {
+        spans.push({ field, start: first.start, end: last.end });
+        return;
+      }
+
+      parts.forEach(part => {
+        if (!isStopWord(part.text) && matches(part.text)) {
+          spans.push({ field, start: part.start, end: part.end });
+        }
+      });
+    });
+  });
+  return spans;
+}
+
+export class SearchIndex {
+  private postings = new Map<string, Posting[]>();
+  // Sorted vocabulary, for prefix lookups
+  private vocabulary: string[];
+  // A word as written for each stem, to show in spelling suggestions
+  private surfaceForms = new Map<string, string>();
+
+  constructor(
+    private readonly programs: Program[],
+    private readonly synonyms: SynonymMap | null = null
+  ) {
+    programs.forEach((program, doc) => {
+      SEARCH_FIELDS.forEach(field => {
+        const words = splitWords(getFieldText(program, field));
+        words.forEach(({ text }) => {
+          const stemmed = stem(text);
+          if (!this.surfaceForms.has(stemmed)) this.surfaceForms.set(stemmed, text);
+        });
+
+        const counts = new Map<string, number>();
+        indexTokens(words).forEach(token => {
+          counts.set(token, (counts.get(token) ?? 0) + 1);
+        });
+        counts.forEach((count, token) => {
+          const list = this.postings.get(token) ?? [];
+          list.push({ doc, field, count });
+          this.postings.set(token, list);
+        });
+      });
+    });
+    this.vocabulary = Array.from(this.postings.keys()).sort();
+  }
+
+  /**
+   * Programs matching every part of the query, most relevant first
+   */
+  search(query: string): SearchResult[] {
+    const clauses = this.parseClauses(query);
+    if (clauses.length === 0) return [];
+
+    const matches = intersectMatches(clauses.map(clause => this.scoreClause(clause)));
+    return Array.from(matches)
+      .map(([doc, { score, tokens }]) => {
+        const program = this.programs[doc];
+        return { program, score, matches: findMatchSpans(program, tokens) };
+      })
+      .sort((a, b) => b.score - a.score || a.program.name.localeCompare(b.program.name));
+  }
+
+  /**
+   * Rewrite the query with each word the index doesn't know replaced by its
+   * closest known spelling, or null if there's nothing to correct.
+   * Words with a known synonym are left alone.
+   */
+  suggest(query: string): string | null {
+    let corrected = false;
+    const words = this.parseClauses(query).flatMap(clause => {
+      if (clause.alternatives.length > 0) return clause.words;
+
+      return clause.terms.map((term, i) => {
+        if (this.hasMatch(term)) return clause.words[i];
+
+        const [closest] = this.similarTokens(term);
+        if (!closest) return clause.words[i];
+        corrected = true;
+        return this.surfaceForms.get(closest) ?? closest;
+      });
+    });
+    return corrected ? words.join(' ') : null;
+  }
+
+  /**
+   * Split a query into clauses, grouping words that form a known synonym phrase
+   */
+  private parseClauses(query: string): QueryClause[] {
+    const words = splitWords(query)
+      .map(part => part.text)
+      .filter(word => !isStopWord(word));
+    const tokens = words.map(stem);
+    const clauses: QueryClause[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 0; i < tokens.length; ) {
+      const match = this.synonyms?.match(tokens, i);
+      const length = match?.length ?? 1;
+      const terms = tokens.slice(i, i + length);
+      const clauseWords = words.slice(i, i + length);
+      i += length;
+
+      // Repeated words don't make a program more relevant
+      const key = terms.join(' ');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      clauses.push({ words: clauseWords, terms, alternatives: match?.alternatives ?? [] });
+    }
+    return clauses;
+  }
+
+  /**
+   * Score programs matching all of the clause's words, or all the words of one
+   * of its synonyms
+   */
+  private scoreClause(clause: QueryClause): Map<number, DocMatch> {
+    const hasSynonyms = clause.alternatives.length > 0;
+    // With synonyms available, a typo-corrected guess isn't needed
+    const matches = intersectMatches(clause.terms.map(term => this.scoreTerm(term, !hasSynonyms)));
+
+    clause.alternatives.forEach(alternative => {
+      const alternativeMatches = intersectMatches(alternative.map(term => this.scoreTerm(term, false)));
+      alternativeMatches.forEach(({ score, tokens }, doc) => {
+        mergeBest(matches, doc, score * SYNONYM_MATCH_FACTOR, tokens);
+      });
+    });
+    return matches;
+  }
+
+  /**
+   * Score every program containing the term, as a whole word or a word prefix,
+   * falling back to similarly spelled words when neither matches
+   */
+  private scoreTerm(term: string, fuzzy: boolean = true): Map<number, DocMatch> {
+    const matches = new Map<number, DocMatch>();
+
+    const addToken = (token: string, factor: number) => {
+      const postings = this.postings.get(token) ?? [];
+      const docs = new Set(postings.map(posting => posting.doc));
+      // Rare words say more about a program than common ones
+      const idf = Math.log(1 + this.programs.length / docs.size);
+
+      const tokenScores = new Map<number, number>();
+      postings.forEach(({ doc, field, count }) => {
+        const score = FIELD_WEIGHTS[field] * (1 + Math.log(count)) * idf * factor;
+        tokenScores.set(doc, (tokenScores.get(doc) ?? 0) + score);
+      });
+      // A program's best-matching token counts for the term
+      tokenScores.forEach((score, doc) => mergeBest(matches, doc, score, [token]));
+    };
+
+    if (this.postings.has(term)) {
+      addToken(term, 1);
+    }
+    if (term.length >= MIN_PREFIX_LENGTH) {
+      this.tokensWithPrefix(term)
+        .filter(token => token !== term)
+        .forEach(token => addToken(token, PREFIX_MATCH_FACTOR));
+    }
+    if (fuzzy && matches.size === 0) {
+      this.similarTokens(term).forEach(token => addToken(token, FUZZY_MATCH_FACTOR));
+    }
+    return matches;
+  }
+
+  private hasMatch(term: string): boolean {
+    return this.postings.has(term) ||
+      (term.length >= MIN_PREFIX_LENGTH && this.tokensWithPrefix(term).length > 0);
+  }
+
+  /**
+   * Known words within the term's typo allowance, closest and most common first
+   */
+  private similarTokens(term: string): string[] {
+    const max = maxEditDistance(term);
+    if (max === 0) return [];
+
+    return this.vocabulary
+      .map(token => ({ token, distance: editDistance(term, token, max) }))
+      .filter(({ distance }) => distance <= max)
+      .sort((a, b) =>
+        a.distance - b.distance ||
+        (this.postings.get(b.token)?.length ?? 0) - (this.postings.get(a.token)?.length ?? 0)
+      )
+      .map(({ token }) => token);
+  }
+
+  private tokensWithPrefix(prefix: string): string[] {
+    // Binary search for the first token >= prefix
+    let low = 0;
+    let high = this.vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.vocabulary[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < this.vocabulary.length && this.vocabulary[i].startsWith(prefix); i++) {
+      matches.push(this.vocabulary[i]);
+    }
+    return matches;
+  }
+}
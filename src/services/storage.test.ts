@@ -0,0 +1,68 @@
+import { describe, test, expect } from '@jest/globals';
+import { Storage, MemoryStorageBackend, CorruptEntryError } from './storage';
+
+// Larger than one chunk, so the value is split
+const LARGE = 'x'.repeat(1200 * 1024);
+
+describe('Storage', () => {
+  test('namespaces keys', async () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new Storage(backend).namespace('app');
+    await storage.set('favorites', ['a']);
+
+    expect(await backend.getAllKeys()).toEqual(['app:favorites']);
+    expect(await storage.keys()).toEqual(['favorites']);
+    expect(await storage.get('favorites')).toEqual(['a']);
+  });
+
+  test('splits large values into chunks and reads them back', async () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new Storage(backend);
+    await storage.setString('programs', LARGE);
+
+    expect((await backend.getAllKeys()).length).toBe(4);
+    expect(await storage.getString('programs')).toBe(LARGE);
+    expect(await storage.byteSizes()).toEqual({ programs: expect.any(Number) });
+    expect(await storage.keys()).toEqual(['programs']);
+  });
+
+  test('replacing a chunked value removes its old chunks', async () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new Storage(backend);
+    await storage.setString('programs', LARGE);
+    await storage.setString('programs', 'small');
+
+    expect(await backend.getAllKeys()).toEqual(['programs']);
+    expect(await storage.getString('programs')).toBe('small');
+  });
+
+  test('remove deletes chunks too', async () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new Storage(backend);
+    await storage.setString('programs', LARGE);
+    await storage.remove('programs');
+
+    expect(await backend.getAllKeys()).toEqual([]);
+  });
+
+  test('throws CorruptEntryError for missing or mismatched chunks', async () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new Storage(backend);
+    await storage.setString('programs', LARGE);
+    const [chunk] = (await backend.getAllKeys()).filter(key => key !== 'programs');
+
+    await backend.setItem(chunk, 'tampered');
+    await expect(storage.getString('programs')).rejects.toThrow(CorruptEntryError);
+
+    await backend.removeItem(chunk);
+    await expect(storage.getString('programs')).rejects.toThrow(CorruptEntryError);
+  });
+
+  test('overlapping writes of one key leave the last value readable', async () => {
+    const storage = new Storage(new MemoryStorageBackend());
+    const last = 'y'.repeat(1100 * 1024);
+    await Promise.all([storage.setString('programs', LARGE), storage.setString('programs', last)]);
+
+    expect(await storage.getString('programs')).toBe(last);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Storage abstraction
+ * Namespaced key-value persistence over a swappable backend
+ * (AsyncStorage on device, in-memory for tests)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Values longer than this are split across several backend items
+const CHUNK_SIZE = 512 * 1024;
+const CHUNK_MARKER = '.__chunk.';
+const MANIFEST_PREFIX = '{"__chunked":true';
+
+/**
+ * Stored under the entry's own key once all of its chunks are written,
+ * so a value is only visible after a complete write
+ */
+interface ChunkManifest {
+  __chunked: true;
+  id: string;
+  count: number;
+  length: number;
+  checksum: string;
+}
+
+/**
+ * Thrown when a chunked value is incomplete or doesn't match its manifest
+ */
+export class CorruptEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorruptEntryError';
+  }
+}
+
+// FNV-1a, enough to detect truncated or mixed-up chunks
+function checksum(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function parseManifest(item: string | null): ChunkManifest | null {
+  if (!item || !item.startsWith(MANIFEST_PREFIX)) return null;
+  return JSON.parse(item);
+}
+
+function chunkKey(key: string, id: string, index: number): string {
+  return `${key}${CHUNK_MARKER}${id}.${index}`;
+}
+
+/**
+ * Minimal async key-value backend. Keys passed here are fully qualified.
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  multiGet(keys: string[]): Promise<[string, string | null][]>;
+  multiRemove(keys: string[]): Promise<void>;
+  getAllKeys(): Promise<string[]>;
+}
+
+export class AsyncStorageBackend implements StorageBackend {
+  getItem(key: string) {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string) {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string) {
+    return AsyncStorage.removeItem(key);
+  }
+
+  async multiGet(keys: string[]) {
+    const items = await AsyncStorage.multiGet(keys);
+    return items.map(([key, value]) => [key, value] as [string, string | null]);
+  }
+
+  multiRemove(keys: string[]) {
+    return AsyncStorage.multiRemove(keys);
+  }
+
+  async getAllKeys() {
+    return [...(await AsyncStorage.getAllKeys())];
+  }
+}
+
+export class MemoryStorageBackend implements StorageBackend {
+  private items = new Map<string, string>();
+
+  async getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  async multiGet(keys: string[]) {
+    return keys.map(key => [key, this.items.get(key) ?? null] as [string, string | null]);
+  }
+
+  async multiRemove(keys: string[]) {
+    keys.forEach(key => this.items.delete(key));
+  }
+
+  async getAllKeys() {
+    return Array.from(this.items.keys());
+  }
+}
+
+/**
+ * Typed, namespaced view over a storage backend.
+ * Keys are relative to the namespace; values are JSON-encoded unless
+ * the string accessors are used. Large values are transparently chunked.
+ */
+export class Storage {
+  constructor(
+    private readonly backend: StorageBackend,
+    private readonly prefix: string = '',
+    // Latest pending write per qualified key, shared with child namespaces
+    private readonly pendingWrites: Map<string, Promise<void>> = new Map()
+  ) {}
+
+  /**
+   * Create a child storage whose keys live under `name`
+   */
+  namespace(name: string): Storage {
+    return new Storage(this.backend, this.qualify(name), this.pendingWrites);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const item = await this.readValue(this.qualify(key));
+    return item === null ? null : JSON.parse(item);
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.queueWrite(this.qualify(key), JSON.stringify(value));
+  }
+
+  getString(key: string): Promise<string | null> {
+    return this.readValue(this.qualify(key));
+  }
+
+  setString(key: string, value: string): Promise<void> {
+    return this.queueWrite(this.qualify(key), value);
+  }
+
+  async remove(keys: string | string[]): Promise<void> {
+    const list = (Array.isArray(keys) ? keys : [keys]).map(key => this.qualify(key));
+    const chunks = (await this.backend.getAllKeys()).filter(key =>
+      list.some(qualified => key.startsWith(`${qualified}${CHUNK_MARKER}`))
+    );
+    await this.backend.multiRemove(list.concat(chunks));
+  }
+
+  async multiGet<T>(keys: string[]): Promise<Record<string, T | null>> {
+    const items = await this.backend.multiGet(keys.map(key => this.qualify(key)));
+    const result: Record<string, T | null> = {};
+    for (const [qualified, item] of items) {
+      const value = parseManifest(item) ? await this.readValue(qualified) : item;
+      result[this.unqualify(qualified)] = value === null ? null : JSON.parse(value);
+    }
+    return result;
+  }
+
+  /**
+   * List keys in this namespace (relative to it)
+   */
+  async keys(): Promise<string[]> {
+    const all = await this.backend.getAllKeys();
+    return all
+      .filter(key => this.owns(key) && !key.includes(CHUNK_MARKER))
+      .map(key => this.unqualify(key));
+  }
+
+  /**
+   * Total length of the stored strings in this namespace
+   */
+  async byteSize(): Promise<number> {
+    const sizes = await this.byteSizes();
+    return Object.values(sizes).reduce((total, size) => total + size, 0);
+  }
+
+  /**
+   * Length of the stored strings per key, counting chunks towards the
+   * key they belong to
+   */
+  async byteSizes(): Promise<Record<string, number>> {
+    const all = await this.backend.getAllKeys();
+    const items = await this.backend.multiGet(all.filter(key => this.owns(key)));
+    const sizes: Record<string, number> = {};
+
+    for (const [qualified, value] of items) {
+      const markerAt = qualified.indexOf(CHUNK_MARKER);
+      const key = this.unqualify(markerAt === -1 ? qualified : qualified.slice(0, markerAt));
+      sizes[key] = (sizes[key] ?? 0) + (value?.length || 0);
+    }
+    return sizes;
+  }
+
+  /**
+   * Read a value, reassembling it from chunks if needed
+   */
+  private async readValue(qualified: string): Promise<string | null> {
+    const item = await this.backend.getItem(qualified);
+    const manifest = parseManifest(item);
+    if (!manifest) return item;
+
+    const chunkKeys = Array.from({ length: manifest.count }, (_, i) =>
+      chunkKey(qualified, manifest.id, i)
+    );
+    const chunks = await this.backend.multiGet(chunkKeys);
+    if (chunks.some(([, chunk]) => chunk === null)) {
+      throw new CorruptEntryError(`Missing chunks for ${qualified}`);
+    }
+
+    const value = chunks.map(([, chunk]) => chunk).join('');
+    if (value.length !== manifest.length || checksum(value) !== manifest.checksum) {
+      throw new CorruptEntryError(`Chunks for ${qualified} don't match their manifest`);
+    }
+    return value;
+  }
+
+  /**
+   * Write a value once earlier writes of the same key have finished, so
+   * overlapping writes can't remove each other's chunks
+   */
+  private queueWrite(qualified: string, value: string): Promise<void> {
+    const previous = this.pendingWrites.get(qualified) ?? Promise.resolve();
+    // A failed write is reported to its own caller and doesn't block the next
+    const write = previous.catch(() => {}).then(() => this.writeValue(qualified, value));
+    this.pendingWrites.set(qualified, write);
+
+    const settle = () => {
+      if (this.pendingWrites.get(qualified) === write) {
+        this.pendingWrites.delete(qualified);
+      }
+    };
+    write.then(settle, settle);
+    return write;
+  }
+
+  /**
+   * Write a value, splitting it into chunks when it's too large for one item.
+   * Chunks are written first and the manifest last, so an interrupted write
+   * leaves the previous value readable.
+   */
+  private async writeValue(qualified: string, value: string): Promise<void> {
+    if (value.length <= CHUNK_SIZE) {
+      await this.backend.setItem(qualified, value);
+      await this.removeChunks(qualified);
+      return;
+    }
+
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const count = Math.ceil(value.length / CHUNK_SIZE);
+    await Promise.all(
+      Array.from({ length: count }, (_, i) =>
+        this.backend.setItem(
+          chunkKey(qualified, id, i),
+          value.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE)
+        )
+      )
+    );
+
+    const manifest: ChunkManifest = {
+      __chunked: true,
+      id,
+      count,
+      length: value.length,
+      checksum: checksum(value),
+    };
+    await this.backend.setItem(qualified, JSON.stringify(manifest));
+    await this.removeChunks(qualified, id);
+  }
+
+  /**
+   * Remove chunks left by earlier (or interrupted) writes of a key
+   */
+  private async removeChunks(qualified: string, keepId?: string): Promise<void> {
+    const prefix = `${qualified}${CHUNK_MARKER}`;
+    const stale = (await this.backend.getAllKeys()).filter(key =>
+      key.startsWith(prefix) && (!keepId || !key.startsWith(`${prefix}${keepId}.`))
+    );
+    if (stale.length > 0) {
+      await this.backend.multiRemove(stale);
+    }
+  }
+
+  private qualify(key: string): string {
+    return this.prefix ? `${this.prefix}:${key}` : key;
+  }
+
+  private unqualify(key: string): string {
+    return this.prefix ? key.slice(this.prefix.length + 1) : key;
+  }
+
+  private owns(key: string): boolean {
+    return !this.prefix || key.startsWith(`${this.prefix}:`);
+  }
+}
+
+// Un-namespaced storage, for keys that predate the app namespace
+export const rootStorage = new Storage(new AsyncStorageBackend());
+
+export const appStorage = rootStorage.namespace('@bay_area_discounts');
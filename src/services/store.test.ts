@@ -0,0 +1,62 @@
+import { describe, test, expect, afterEach, jest } from '@jest/globals';
+import APIService from './api';
+import { FavoritesStore, Query } from './store';
+import { FavoriteProgram } from '../types';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Query', () => {
+  test('runs a forced refresh after a normal revalidation in flight', async () => {
+    const calls: boolean[] = [];
+    const query = new Query<number>({
+      peek: async () => null,
+      fetch: async forceRefresh => {
+        calls.push(forceRefresh);
+        await flush();
+        return calls.length;
+      },
+    });
+
+    const normal = query.revalidate();
+    const forced = query.revalidate(true);
+    expect(query.revalidate(true)).toBe(forced);
+    expect(query.revalidate()).toBe(forced);
+    await Promise.all([normal, forced]);
+
+    expect(calls).toEqual([false, true]);
+    expect(query.getSnapshot()).toMatchObject({ data: 2, isRefreshing: false });
+  });
+});
+
+describe('FavoritesStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('a reload that read storage before a toggle does not undo it', async () => {
+    let stored: FavoriteProgram[] = [];
+    let releaseRead: () => void = () => {};
+    jest.spyOn(APIService, 'getFavoriteRecords').mockImplementation(() => {
+      const snapshot = stored;
+      return new Promise(resolve => {
+        releaseRead = () => resolve(snapshot);
+      });
+    });
+    jest.spyOn(APIService, 'addFavorite').mockImplementation(async id => {
+      stored = [...stored, { id, savedAt: '2025-01-01T00:00:00Z' }];
+    });
+
+    const store = new FavoritesStore();
+    const reload = store.reload();
+    await store.toggle('calfresh');
+    releaseRead();
+    await reload;
+    expect(store.isFavorite('calfresh')).toBe(true);
+
+    // The discarded read is repeated once the toggle is stored
+    await flush();
+    releaseRead();
+    await flush();
+    expect(store.getSnapshot().map(favorite => favorite.savedAt)).toEqual(['2025-01-01T00:00:00Z']);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Observable data store
+ * Shares API data between screens with stale-while-revalidate semantics:
+ * subscribers get cached data immediately, revalidation happens in the
+ * background, and every mounted screen is pushed the result
+ */
+
+import { Program, Eligibility, FavoriteProgram } from '../types';
+import APIService from './api';
+
+type Listener = () => void;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  // True until the first data (cached or fresh) is available
+  isLoading: boolean;
+  // True while a background revalidation is in flight
+  isRefreshing: boolean;
+  updatedAt: number | null;
+}
+
+interface QueryOptions<T> {
+  // Read whatever is cached, however stale, without network access
+  peek: () => Promise<T | null>;
+  fetch: (forceRefresh: boolean) => Promise<T>;
+}
+
+/**
+ * Minimal subscribable value, compatible with React's useSyncExternalStore
+ */
+class Observable<S> {
+  private listeners = new Set<Listener>();
+
+  constructor(protected state: S) {}
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): S => this.state;
+
+  protected setState(state: S) {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export class Query<T> extends Observable<QueryState<T>> {
+  private pending: Promise<void> | null = null;
+  // Whether the pending run bypasses the cache
+  private pendingForced = false;
+
+  constructor(private readonly options: QueryOptions<T>) {
+    super({ data: undefined, error: null, isLoading: true, isRefreshing: false, updatedAt: null });
+  }
+
+  /**
+   * Load data the first time a screen needs it
+   */
+  ensureLoaded(): Promise<void> {
+    if (this.state.updatedAt !== null || this.pending) {
+      return this.pending ?? Promise.resolve();
+    }
+    return this.revalidate();
+  }
+
+  /**
+   * Serve cached data straight away, then fetch in the background.
+   * A forced refresh requested during a normal revalidation runs after it.
+   */
+  revalidate(forceRefresh: boolean = false): Promise<void> {
+    if (this.pending && (this.pendingForced || !forceRefresh)) {
+      return this.pending;
+    }
+
+    const start = () => this.run(forceRefresh);
+    const pending: Promise<void> = (this.pending ? this.pending.then(start) : start()).finally(() => {
+      if (this.pending === pending) {
+        this.pending = null;
+      }
+    });
+    this.pending = pending;
+    this.pendingForced = forceRefresh;
+    return pending;
+  }
+
+  private async run(forceRefresh: boolean) {
+    this.setState({ ...this.state, error: null, isRefreshing: true });
+
+    if (this.state.data === undefined) {
+      try {
+        const cached = await this.options.peek();
+        if (cached !== null) {
+          this.setState({ ...this.state, data: cached, isLoading: false });
+        }
+      } catch (error) {
+        console.warn('Store cache read error:', error);
+      }
+    }
+
+    try {
+      const data = await this.options.fetch(forceRefresh);
+      this.setState({
+        data,
+        error: null,
+        isLoading: false,
+        isRefreshing: false,
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error('Store revalidation error:', error);
+      // Keep whatever data we had; screens decide whether the error matters
+      this.setState({ ...this.state, error, isLoading: false, isRefreshing: false });
+    }
+  }
+}
+
+/**
+ * Saved programs, shared so a change on one screen shows everywhere
+ */
+export class FavoritesStore extends Observable<FavoriteProgram[]> {
+  private loading: Promise<void> | null = null;
+  private loaded = false;
+  // Toggles started, and those whose write hasn't finished. A reload that
+  // read storage around a toggle may not include it, so it's discarded and
+  // repeated once every toggle is stored.
+  private toggleCount = 0;
+  private pendingToggles = 0;
+  private reloadDiscarded = false;
+
+  constructor() {
+    super([]);
+  }
+
+  ensureLoaded(): Promise<void> {
+    if (this.loaded) {
+      return Promise.resolve();
+    }
+    return this.reload();
+  }
+
+  reload(): Promise<void> {
+    if (!this.loading) {
+      const togglesBefore = this.toggleCount;
+      this.loading = APIService.getFavoriteRecords()
+        .then(favorites => {
+          this.loaded = true;
+          if (this.pendingToggles > 0 || this.toggleCount !== togglesBefore) {
+            this.reloadDiscarded = true;
+            return;
+          }
+          this.setState(favorites);
+        })
+        .finally(() => {
+          this.loading = null;
+          this.reloadIfDiscarded();
+        });
+    }
+    return this.loading;
+  }
+
+  isFavorite(programId: string): boolean {
+    return this.state.some(favorite => favorite.id === programId);
+  }
+
+  /**
+   * Add or remove a favorite, updating subscribers optimistically and
+   * restoring the stored list if the write fails
+   */
+  async toggle(programId: string): Promise<void> {
+    const wasFavorite = this.isFavorite(programId);
+    this.setState(
+      wasFavorite
+        ? this.state.filter(favorite => favorite.id !== programId)
+        : [...this.state, { id: programId, savedAt: new Date().toISOString() }]
+    );
+
+    this.toggleCount++;
+    this.pendingToggles++;
+    try {
+      if (wasFavorite) {
+        await APIService.removeFavorite(programId);
+      } else {
+        await APIService.addFavorite(programId);
+      }
+    } catch (error) {
+      this.pendingToggles--;
+      this.reloadDiscarded = true;
+      this.reloadIfDiscarded();
+      throw error;
+    }
+    this.pendingToggles--;
+    this.reloadIfDiscarded();
+  }
+
+  private reloadIfDiscarded(): void {
+    if (this.reloadDiscarded && this.pendingToggles === 0 && !this.loading) {
+      this.reloadDiscarded = false;
+      this.reload();
+    }
+  }
+}
+
+export const programsQuery = new Query<Program[]>({
+  peek: () => APIService.getCachedPrograms(),
+  fetch: async forceRefresh => {
+    const programs = await APIService.getPrograms(forceRefresh);
+    // A new program list may have updated favorite snapshots or removals
+    favoritesStore.reload();
+    return programs;
+  },
+});
+
+export const eligibilityQuery = new Query<Eligibility[]>({
+  peek: () => APIService.getCachedEligibility(),
+  fetch: forceRefresh => APIService.getEligibility(forceRefresh),
+});
+
+export const favoritesStore = new FavoritesStore();
+
+/**
+ * Re-read every dataset after a sync, cache clear or environment switch
+ */
+export function revalidateAll(): Promise<void> {
+  return Promise.all([
+    programsQuery.revalidate(),
+    eligibilityQuery.revalidate(),
+    favoritesStore.reload(),
+  ]).then(() => undefined);
+}
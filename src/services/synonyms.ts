@@ -0,0 +1,58 @@
+/**
+ * Search synonyms
+ * Other names and abbreviations for programs and agencies, so people can
+ * find a program without knowing its official name
+ */
+
+import { tokenize } from './textNormalizer';
+
+export interface SynonymMatch {
+  // Number of query tokens the matched phrase covers
+  length: number;
+  // The other phrases in the matched group, as tokens
+  alternatives: string[][];
+}
+
+export class SynonymMap {
+  // Alternatives keyed by the phrase's tokens joined with spaces
+  private phrases = new Map<string, string[][]>();
+  private maxPhraseLength = 0;
+
+  constructor(groups: string[][]) {
+    groups.forEach(group => {
+      const phrases = this.uniquePhrases(group);
+      phrases.forEach(phrase => {
+        const key = phrase.join(' ');
+        const others = phrases.filter(other => other.join(' ') !== key);
+        this.phrases.set(key, [...(this.phrases.get(key) ?? []), ...others]);
+        this.maxPhraseLength = Math.max(this.maxPhraseLength, phrase.length);
+      });
+    });
+  }
+
+  /**
+   * Find the longest known phrase starting at `start` in a tokenized query
+   */
+  match(tokens: string[], start: number): SynonymMatch | null {
+    const longest = Math.min(this.maxPhraseLength, tokens.length - start);
+    for (let length = longest; length > 0; length--) {
+      const alternatives = this.phrases.get(tokens.slice(start, start + length).join(' '));
+      if (alternatives) {
+        return { length, alternatives };
+      }
+    }
+    return null;
+  }
+
+  private uniquePhrases(group: string[]): string[][] {
+    const seen = new Set<string>();
+    return group
+      .map(phrase => tokenize(phrase))
+      .filter(tokens => {
+        const key = tokens.join(' ');
+        if (tokens.length === 0 || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+}
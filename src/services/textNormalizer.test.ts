@@ -0,0 +1,60 @@
+import { describe, test, expect } from '@jest/globals';
+import { foldText, splitWords, stem, tokenize } from './textNormalizer';
+
+describe('foldText', () => {
+  test('folds case, accents and compatibility characters', () => {
+    expect(foldText('Niños')).toBe('ninos');
+    expect(foldText('ＣａｌＦｒｅｓｈ')).toBe('calfresh');
+    expect(foldText('Straße')).toBe('strasse');
+  });
+});
+
+describe('splitWords', () => {
+  test('keeps positions in the original text', () => {
+    expect(splitWords('Medi-Cal  niños')).toEqual([
+      { start: 0, end: 4, text: 'medi', word: 0 },
+      { start: 5, end: 8, text: 'cal', word: 0 },
+      { start: 10, end: 15, text: 'ninos', word: 2 },
+    ]);
+  });
+
+  test('joins words around any apostrophe', () => {
+    expect(splitWords("women's women’s").map(part => part.text)).toEqual(['womens', 'womens']);
+  });
+});
+
+describe('stem', () => {
+  test.each([
+    ['housing', 'hous'],
+    ['houses', 'hous'],
+    ['house', 'hous'],
+    ['buses', 'bus'],
+    ['bus', 'bus'],
+    ['autobuses', 'autobus'],
+    ['classes', 'class'],
+    ['boxes', 'box'],
+    ['families', 'family'],
+    ['uses', 'use'],
+    ['eyes', 'eye'],
+    ['needed', 'need'],
+    ['fares', 'fare'],
+    ['medicos', 'medic'],
+    ['ciudades', 'ciudad'],
+    ['mujeres', 'mujer'],
+    ['meses', 'mes'],
+    ['leyes', 'ley'],
+    ['clases', 'clas'],
+    ['clase', 'clas'],
+    ['ninos', 'nino'],
+    ['2024s', '2024s'],
+  ])('%s becomes %s', (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+});
+
+describe('tokenize', () => {
+  test('drops English and Spanish filler words and stems the rest', () => {
+    expect(tokenize('Programs for the seniors')).toEqual(['program', 'senior']);
+    expect(tokenize('Ayuda para los niños')).toEqual(['ayud', 'nino']);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Text normalization for search
+ * Folds accents, compatibility characters (e.g. full-width letters) and
+ * apostrophe variants, and reduces English and Spanish words to a common
+ * stem, so "Niños", "ninos" and "niño" all find the same programs
+ */
+
+// Common English and Spanish filler words
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'with', 'or', 'at', 'by',
+  'de', 'del', 'el', 'la', 'las', 'los', 'y', 'para', 'con', 'por', 'un', 'una',
+]);
+
+// Letters that Unicode decomposition leaves alone
+const SPECIAL_LETTERS: Record<string, string> = {
+  'ß': 'ss',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ø': 'o',
+  'ł': 'l',
+  'đ': 'd',
+  'ı': 'i',
+};
+
+// Straight and curly apostrophes join a word rather than split it,
+// so "women's" and "women’s" are the same word
+const APOSTROPHES = new Set(["'", '’', '‘', 'ʼ']);
+
+// Stemmed words shorter than this are left alone
+const MIN_STEM_LENGTH = 4;
+
+export interface WordPart {
+  // Range of the part in the original text
+  start: number;
+  end: number;
+  // Folded text of the part, before stemming
+  text: string;
+  // Parts of one hyphenated or punctuated word (e.g. Medi-Cal) share an index
+  word: number;
+}
+
+/**
+ * Fold one character to lowercase ASCII where it has an equivalent
+ */
+function foldChar(char: string): string {
+  if (char.charCodeAt(0) < 128) return char.toLowerCase();
+
+  const decomposed = char
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+  return Array.from(decomposed)
+    .map(c => SPECIAL_LETTERS[c] ?? c)
+    .join('');
+}
+
+/**
+ * Lowercase text with accents and compatibility characters folded,
+ * e.g. "Ｎｉñｏｓ" becomes "ninos"
+ */
+export function foldText(text: string): string {
+  return Array.from(text).map(foldChar).join('');
+}
+
+/**
+ * Split text into runs of letters and digits, keeping their positions in
+ * the original text. Whitespace separates words; other punctuation only
+ * separates parts of a word.
+ */
+export function splitWords(text: string): WordPart[] {
+  const parts: WordPart[] = [];
+  let current: WordPart | null = null;
+  let word = 0;
+  let position = 0;
+
+  for (const char of Array.from(text)) {
+    const folded = foldChar(char);
+    if (/^[a-z0-9]+$/.test(folded)) {
+      if (current) {
+        current.text += folded;
+        current.end = position + char.length;
+      } else {
+        current = { start: position, end: position + char.length, text: folded, word };
+        parts.push(current);
+      }
+    } else if (!(current && APOSTROPHES.has(char))) {
+      current = null;
+      if (/\s/.test(char)) word++;
+    }
+    position += char.length;
+  }
+  return parts;
+}
+
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word);
+}
+
+/**
+ * Light stemming shared by English and Spanish: drops plurals, English
+ * -ing/-ed endings and a final a/e/o, e.g. "housing", "houses" and "house"
+ * all become "hous", "médicos" and "medica" become "medic", and "buses"
+ * and "leyes" become "bus" and "ley"
+ */
+export function stem(word: string): string {
+  if (word.length < MIN_STEM_LENGTH || /[0-9]/.test(word)) return word;
+
+  let stemmed = word;
+  if (stemmed.endsWith('ies') && stemmed.length > MIN_STEM_LENGTH) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (/(ss|x|ch|sh|z)es$/.test(stemmed) || (/[sy]es$/.test(stemmed) && stemmed.length > MIN_STEM_LENGTH)) {
+    // -ses and Spanish -yes plurals keep their e when that would leave under
+    // three letters, as in "uses" and "eyes"
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.endsWith('s') && !/(ss|us|is)$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  if (stemmed.endsWith('ing') && stemmed.length - 3 >= MIN_STEM_LENGTH) {
+    stemmed = stemmed.slice(0, -3);
+  } else if (stemmed.endsWith('ed') && stemmed.length - 2 >= MIN_STEM_LENGTH) {
+    stemmed = stemmed.slice(0, -2);
+  }
+
+  if (/[aeo]$/.test(stemmed) && stemmed.length - 1 >= MIN_STEM_LENGTH) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
+
+/**
+ * Normalize text into stemmed search tokens, dropping filler words
+ */
+export function tokenize(text: string): string[] {
+  return splitWords(text)
+    .filter(part => !isStopWord(part.text))
+    .map(part => stem(part.text));
+}
@@ -0,0 +1,106 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  InvalidPayloadError,
+  validateCategoriesResponse,
+  validateMetadata,
+  validateProgram,
+  validateProgramsResponse,
+  validateSynonymsResponse,
+} from './validation';
+
+const program = (fields: Record<string, unknown> = {}) => ({
+  id: 'calfresh',
+  name: 'CalFresh',
+  category: 'food',
+  description: 'Food benefits',
+  eligibility: ['low-income'],
+  areas: ['Statewide'],
+  city: null,
+  website: 'https://example.com',
+  cost: null,
+  phone: null,
+  email: null,
+  requirements: null,
+  howToApply: null,
+  lastUpdated: '2025-01-01',
+  ...fields,
+});
+
+describe('validateProgramsResponse', () => {
+  test('accepts a valid payload without issues', () => {
+    const { data, issues } = validateProgramsResponse({ total: 1, programs: [program()] });
+    expect(data.programs).toEqual([program()]);
+    expect(issues).toEqual([]);
+  });
+
+  test('repairs malformed fields', () => {
+    const { data, issues } = validateProgramsResponse({
+      programs: [program({ eligibility: 'low-income', city: 7 })],
+    });
+    expect(data.programs[0].eligibility).toEqual([]);
+    expect(data.programs[0].city).toBeNull();
+    expect(issues.map(issue => issue.action)).toEqual(['repaired', 'repaired']);
+  });
+
+  test('drops records without an id or name, and duplicates', () => {
+    const { data, issues } = validateProgramsResponse({
+      programs: [program(), program({ id: 'muni' }), program({ id: 'bart' }), program(), program({ id: 'x', name: '' })],
+    });
+    expect(data.programs.map(p => p.id)).toEqual(['calfresh', 'muni', 'bart']);
+    expect(issues).toEqual([
+      { record: 'calfresh', action: 'dropped', reason: 'duplicate id' },
+      { record: 'x', action: 'dropped', reason: 'missing name' },
+    ]);
+  });
+
+  test('rejects a payload when most records are dropped', () => {
+    const renamed = [program(), program({ id: 'muni' })].map(({ name, ...rest }) => ({ title: name, ...rest }));
+    expect(() => validateProgramsResponse({ programs: renamed })).toThrow(InvalidPayloadError);
+  });
+
+  test('accepts an empty list', () => {
+    expect(validateProgramsResponse({ programs: [] }).data.programs).toEqual([]);
+  });
+
+  test('rejects a payload of the wrong shape', () => {
+    expect(() => validateProgramsResponse([])).toThrow(InvalidPayloadError);
+    expect(() => validateProgramsResponse({ programs: {} })).toThrow(InvalidPayloadError);
+  });
+});
+
+describe('validateProgram', () => {
+  test('rejects a single unusable record', () => {
+    expect(() => validateProgram({ id: 'calfresh' })).toThrow(InvalidPayloadError);
+  });
+});
+
+describe('validateCategoriesResponse', () => {
+  test('fills in a missing icon', () => {
+    const { data } = validateCategoriesResponse({ categories: [{ id: 'food', name: 'Food' }] });
+    expect(data.categories).toEqual([{ id: 'food', name: 'Food', icon: '📋', programCount: 0 }]);
+  });
+
+  test('rejects a list where every record is dropped', () => {
+    expect(() => validateCategoriesResponse({ categories: [{ id: 'food' }] })).toThrow(InvalidPayloadError);
+  });
+});
+
+describe('validateMetadata', () => {
+  test('requires a version and a valid generatedAt', () => {
+    expect(() => validateMetadata({ generatedAt: '2025-01-01' })).toThrow(InvalidPayloadError);
+    expect(() => validateMetadata({ version: 'v1', generatedAt: 'soon' })).toThrow(InvalidPayloadError);
+  });
+
+  test('defaults missing endpoints', () => {
+    const { data } = validateMetadata({ version: 'v1', generatedAt: '2025-01-01T00:00:00Z' });
+    expect(data.endpoints.programs).toBe('/programs.json');
+  });
+});
+
+describe('validateSynonymsResponse', () => {
+  test('drops groups with fewer than two names', () => {
+    const { data, issues } = validateSynonymsResponse({ groups: [['snap', 'calfresh'], ['muni'], 'bart'] });
+    expect(data.groups).toEqual([['snap', 'calfresh']]);
+    expect(issues).toHaveLength(2);
+  });
+});
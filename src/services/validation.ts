@@ -0,0 +1,317 @@
+/**
+ * Runtime validation for API payloads
+ * Repairs or drops malformed records so upstream data mistakes can't crash
+ * screens, and rejects payloads that are unusable as a whole
+ */
+
+import {
+  Program,
+  Category,
+  Eligibility,
+  Area,
+  ProgramsResponse,
+  CategoriesResponse,
+  EligibilityResponse,
+  AreasResponse,
+  APIMetadata,
+  SynonymsResponse,
+} from '../types';
+
+export interface ValidationIssue {
+  record: string;
+  action: 'dropped' | 'repaired';
+  reason: string;
+}
+
+export interface ValidationResult<T> {
+  data: T;
+  issues: ValidationIssue[];
+}
+
+export type Validator<T> = (raw: unknown) => ValidationResult<T>;
+
+/**
+ * Thrown when a payload is unusable as a whole (wrong shape, not JSON object)
+ */
+export class InvalidPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPayloadError';
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+const AREA_TYPES: Area['type'][] = ['county', 'region', 'state', 'nationwide'];
+
+// Share of a list that may be dropped before the whole payload is rejected.
+// Losing more than this points at an upstream schema change (e.g. a renamed
+// field), and caching what's left would replace good data with a stub.
+const MAX_DROPPED_SHARE = 0.5;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Collects issues for a single record while repairing its fields
+ */
+class RecordChecker {
+  constructor(
+    private readonly raw: RawRecord,
+    private readonly label: string,
+    private readonly issues: ValidationIssue[]
+  ) {}
+
+  repaired(reason: string) {
+    this.issues.push({ record: this.label, action: 'repaired', reason });
+  }
+
+  string(field: string, fallback: string): string {
+    const value = this.raw[field];
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    this.repaired(`${field} missing or not a string`);
+    return fallback;
+  }
+
+  nullableString(field: string): string | null {
+    const value = this.raw[field];
+    if (typeof value === 'string') return value;
+    if (value !== undefined && value !== null) {
+      this.repaired(`${field} is not a string`);
+    }
+    return null;
+  }
+
+  stringArray(field: string): string[] {
+    const value = this.raw[field];
+    if (!Array.isArray(value)) {
+      this.repaired(`${field} missing or not a list`);
+      return [];
+    }
+    const strings = value.filter((item): item is string => typeof item === 'string');
+    if (strings.length !== value.length) {
+      this.repaired(`${field} contains non-string entries`);
+    }
+    return strings;
+  }
+
+  count(field: string): number {
+    const value = this.raw[field];
+    if (typeof value === 'number' && isFinite(value) && value >= 0) return value;
+    if (value !== undefined) {
+      this.repaired(`${field} is not a valid count`);
+    }
+    return 0;
+  }
+}
+
+/**
+ * Validate a list of records, dropping anything without a usable id and name
+ * and de-duplicating by id. Throws if too much of a non-empty list is dropped.
+ */
+function validateList<T extends { id: string }>(
+  raw: unknown,
+  kind: string,
+  repair: (record: RawRecord, checker: RecordChecker) => T
+): ValidationResult<T[]> {
+  if (!Array.isArray(raw)) {
+    throw new InvalidPayloadError(`Expected a list of ${kind}`);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  const data: T[] = [];
+
+  raw.forEach((item, index) => {
+    const label = isRecord(item) && isNonEmptyString(item.id) ? item.id : `${kind}[${index}]`;
+    const drop = (reason: string) => issues.push({ record: label, action: 'dropped', reason });
+
+    if (!isRecord(item)) {
+      drop('not an object');
+      return;
+    }
+    if (!isNonEmptyString(item.id)) {
+      drop('missing id');
+      return;
+    }
+    if (!isNonEmptyString(item.name)) {
+      drop('missing name');
+      return;
+    }
+    if (seen.has(item.id)) {
+      drop('duplicate id');
+      return;
+    }
+
+    seen.add(item.id);
+    data.push(repair(item, new RecordChecker(item, label, issues)));
+  });
+
+  const dropped = raw.length - data.length;
+  if (dropped > 0 && dropped > raw.length * MAX_DROPPED_SHARE) {
+    const reason = issues.find(issue => issue.action === 'dropped')?.reason;
+    throw new InvalidPayloadError(`Dropped ${dropped} of ${raw.length} ${kind} records (${reason})`);
+  }
+
+  return { data, issues };
+}
+
+function repairProgram(raw: RawRecord, check: RecordChecker): Program {
+  return {
+    id: raw.id as string,
+    name: raw.name as string,
+    category: check.string('category', 'other'),
+    description: check.string('description', ''),
+    eligibility: check.stringArray('eligibility'),
+    areas: check.stringArray('areas'),
+    city: check.nullableString('city'),
+    website: check.string('website', ''),
+    cost: check.nullableString('cost'),
+    phone: check.nullableString('phone'),
+    email: check.nullableString('email'),
+    requirements: check.nullableString('requirements'),
+    howToApply: check.nullableString('howToApply'),
+    lastUpdated: check.string('lastUpdated', ''),
+  };
+}
+
+function requireObject(raw: unknown, kind: string): RawRecord {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError(`Expected ${kind} to be an object`);
+  }
+  return raw;
+}
+
+export const validateProgram: Validator<Program> = raw => {
+  // A single record that gets dropped fails the whole payload
+  const { data, issues } = validateList([raw], 'program', repairProgram);
+  return { data: data[0], issues };
+};
+
+export const validateProgramsResponse: Validator<ProgramsResponse> = raw => {
+  const payload = requireObject(raw, 'programs response');
+  const { data: programs, issues } = validateList(payload.programs, 'program', repairProgram);
+  const number = (value: unknown, fallback: number) =>
+    typeof value === 'number' && isFinite(value) ? value : fallback;
+
+  return {
+    data: {
+      total: number(payload.total, programs.length),
+      count: programs.length,
+      offset: number(payload.offset, 0),
+      programs,
+    },
+    issues,
+  };
+};
+
+export const validateCategoriesResponse: Validator<CategoriesResponse> = raw => {
+  const payload = requireObject(raw, 'categories response');
+  const { data: categories, issues } = validateList<Category>(
+    payload.categories,
+    'category',
+    (record, check) => ({
+      id: record.id as string,
+      name: record.name as string,
+      icon: check.string('icon', '📋'),
+      programCount: check.count('programCount'),
+    })
+  );
+  return { data: { categories }, issues };
+};
+
+export const validateEligibilityResponse: Validator<EligibilityResponse> = raw => {
+  const payload = requireObject(raw, 'eligibility response');
+  const { data: eligibility, issues } = validateList<Eligibility>(
+    payload.eligibility,
+    'eligibility',
+    (record, check) => ({
+      id: record.id as string,
+      name: record.name as string,
+      description: check.string('description', ''),
+      icon: check.string('icon', '📋'),
+      programCount: check.count('programCount'),
+    })
+  );
+  return { data: { eligibility }, issues };
+};
+
+export const validateAreasResponse: Validator<AreasResponse> = raw => {
+  const payload = requireObject(raw, 'areas response');
+  const { data: areas, issues } = validateList<Area>(
+    payload.areas,
+    'area',
+    (record, check) => {
+      let type = record.type as Area['type'];
+      if (!AREA_TYPES.includes(type)) {
+        check.repaired('type is not a known area type');
+        type = 'region';
+      }
+      return {
+        id: record.id as string,
+        name: record.name as string,
+        type,
+        programCount: check.count('programCount'),
+      };
+    }
+  );
+  return { data: { areas }, issues };
+};
+
+export const validateMetadata: Validator<APIMetadata> = raw => {
+  const payload = requireObject(raw, 'metadata');
+  if (!isNonEmptyString(payload.version)) {
+    throw new InvalidPayloadError('Metadata is missing a version');
+  }
+  if (!isNonEmptyString(payload.generatedAt) || isNaN(new Date(payload.generatedAt).getTime())) {
+    throw new InvalidPayloadError('Metadata has an invalid generatedAt');
+  }
+
+  const issues: ValidationIssue[] = [];
+  const check = new RecordChecker(payload, 'metadata', issues);
+  const endpoints = isRecord(payload.endpoints) ? payload.endpoints : {};
+  const endpoint = (name: string, fallback: string) =>
+    typeof endpoints[name] === 'string' ? (endpoints[name] as string) : fallback;
+
+  return {
+    data: {
+      version: payload.version,
+      generatedAt: payload.generatedAt,
+      totalPrograms: check.count('totalPrograms'),
+      endpoints: {
+        programs: endpoint('programs', '/programs.json'),
+        categories: endpoint('categories', '/categories.json'),
+        eligibility: endpoint('eligibility', '/eligibility.json'),
+        areas: endpoint('areas', '/areas.json'),
+        singleProgram: endpoint('singleProgram', '/programs/{id}.json'),
+      },
+    },
+    issues,
+  };
+};
+
+export const validateSynonymsResponse: Validator<SynonymsResponse> = raw => {
+  const payload = requireObject(raw, 'synonyms response');
+  if (!Array.isArray(payload.groups)) {
+    throw new InvalidPayloadError('synonyms response is missing a groups array');
+  }
+
+  const issues: ValidationIssue[] = [];
+  const groups: string[][] = [];
+  payload.groups.forEach((group: unknown, index: number) => {
+    const phrases = Array.isArray(group) ? group.filter(isNonEmptyString) : [];
+    // A group needs at least two names to expand anything
+    if (phrases.length < 2) {
+      issues.push({ record: `synonym group ${index}`, action: 'dropped', reason: 'fewer than two names' });
+      return;
+    }
+    groups.push(phrases);
+  });
+  return { data: { groups }, issues };
+};
@@ -84,4 +84,29 @@ export interface FilterState {
 export interface FavoriteProgram {
   id: string;
   savedAt: string;
+  // Last-known details, kept so the program can still be shown if it's removed
+  snapshot?: Program;
+  // Set when a synced program list no longer includes the program
+  removedAt?: string;
+}
+
+export interface ProgramChange {
+  type: 'added' | 'removed' | 'changed';
+  programId: string;
+  name: string;
+  // Fields that changed, for 'changed' entries
+  fields?: (keyof Program)[];
+}
+
+// Program changes between two dataset versions, recorded at sync time
+export interface ChangeSet {
+  version: string;
+  previousVersion: string;
+  syncedAt: string;
+  changes: ProgramChange[];
+}
+
+// Each group lists names and abbreviations that mean the same thing
+export interface SynonymsResponse {
+  groups: string[][];
 }
@@ -4,8 +4,9 @@
  */
 
 import * as Sentry from '@sentry/react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { rootStorage } from '../services/storage';
 
+// Stored outside the app namespace for compatibility with existing installs
 const CRASH_REPORTING_KEY = '@crash_reporting_enabled';
 
 // Initialize Sentry with privacy-friendly settings
@@ -60,7 +61,7 @@ export function enableSentry() {
 // Load crash reporting preference from storage
 export async function loadCrashReportingPreference(): Promise<boolean> {
   try {
-    const value = await AsyncStorage.getItem(CRASH_REPORTING_KEY);
+    const value = await rootStorage.getString(CRASH_REPORTING_KEY);
     // Default to true if not set
     return value === null ? true : value === 'true';
   } catch {
@@ -71,7 +72,7 @@ export async function loadCrashReportingPreference(): Promise<boolean> {
 // Save crash reporting preference and update Sentry state
 export async function setCrashReportingEnabled(enabled: boolean): Promise<void> {
   try {
-    await AsyncStorage.setItem(CRASH_REPORTING_KEY, enabled.toString());
+    await rootStorage.setString(CRASH_REPORTING_KEY, enabled.toString());
     if (enabled) {
       enableSentry();
     } else {
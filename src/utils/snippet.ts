@@ -0,0 +1,83 @@
+/**
+ * Search result snippets
+ * Cuts a window of text around the first match, so a hit deep in a long
+ * description is still visible on a result card
+ */
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  text: string;
+  // Highlighted ranges within `text`
+  highlights: TextRange[];
+  // Whether text was cut from either end
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+const DEFAULT_SNIPPET_LENGTH = 160;
+// Characters of context to show before the first match
+const LEADING_CONTEXT = 40;
+
+/**
+ * Cut up to `maxLength` characters of text around the first range, on word
+ * boundaries, and shift the ranges to the cut text
+ */
+export function buildSnippet(
+  text: string,
+  ranges: TextRange[],
+  maxLength: number = DEFAULT_SNIPPET_LENGTH
+): Snippet {
+  const sorted = mergeRanges(ranges);
+
+  let start = 0;
+  if (sorted.length > 0 && text.length > maxLength) {
+    start = Math.max(0, Math.min(sorted[0].start - LEADING_CONTEXT, text.length - maxLength));
+    // Start at the beginning of a word
+    if (start > 0) {
+      const space = text.indexOf(' ', start - 1);
+      start = space === -1 || space >= sorted[0].start ? start : space + 1;
+    }
+  }
+
+  let end = Math.min(text.length, start + maxLength);
+  // End at the end of a word
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const highlights = sorted
+    .filter(range => range.end > start && range.start < end)
+    .map(range => ({
+      start: Math.max(range.start, start) - start,
+      end: Math.min(range.end, end) - start,
+    }));
+
+  return {
+    text: text.slice(start, end),
+    highlights,
+    truncatedStart: start > 0,
+    truncatedEnd: end < text.length,
+  };
+}
+
+/**
+ * Sort ranges and join any that overlap or touch
+ */
+export function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+  return merged;
+}